@@ -1,6 +1,19 @@
 import * as THREE from 'three';
 import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
 import { PartySocket } from 'partysocket';
+import {
+  createCursorClock,
+  encodeMessage,
+  parseServerMessage,
+  rgbToHex,
+  type CameraState,
+  type ClientMessage,
+  type ServerMessage,
+  type Vec3
+} from './src/shared/protocol';
+import { createColorCommitter } from './src/utils/colorCommit';
+import { formatColor, readableTextColor } from './src/utils/colorFormats';
+import { attachPointerGestures } from './src/utils/pointerGestures';
 
 class RGBCubeVisualizer extends EventTarget {
   private scene: THREE.Scene;
@@ -15,6 +28,10 @@ class RGBCubeVisualizer extends EventTarget {
   private remoteCursors = new Map<string, THREE.Mesh>();
   private userColorCircles = new Map<string, HTMLElement>();
   private isCameraMoving = false;
+  // Turns hover into an explicit color change on click, Enter or dwell
+  private colorCommitter = createColorCommitter(color => {
+    this.dispatchEvent(new CustomEvent('colorchange', { detail: { color } }));
+  });
   public currentUserSessionId: string | null = null;
 
   constructor(canvas: HTMLCanvasElement, colorDisplay?: HTMLElement) {
@@ -64,6 +81,8 @@ class RGBCubeVisualizer extends EventTarget {
     this.controls.minDistance = 0.7; // Can get really close for detailed inspection
     this.controls.maxDistance = 15;  // Can't zoom out further than this
     this.controls.enableZoom = true;
+    // One finger picks (see attachPointerGestures); two orbit and pinch to zoom
+    this.controls.touches = { ONE: null, TWO: THREE.TOUCH.DOLLY_ROTATE };
 
     // Listen for camera interaction start/end to prevent picker circle jumping
     this.controls.addEventListener('start', () => {
@@ -144,25 +163,46 @@ class RGBCubeVisualizer extends EventTarget {
   }
 
   private setupInteraction(canvas: HTMLCanvasElement): void {
-    canvas.addEventListener('mousemove', (event) => {
+    const point = (clientX: number, clientY: number) => {
       const rect = canvas.getBoundingClientRect();
-      this.mouse.x = ((event.clientX - rect.left) / rect.width) * 2 - 1;
-      this.mouse.y = -((event.clientY - rect.top) / rect.height) * 2 + 1;
+      this.mouse.x = ((clientX - rect.left) / rect.width) * 2 - 1;
+      this.mouse.y = -((clientY - rect.top) / rect.height) * 2 + 1;
 
       // Skip color display updates during camera movement to prevent picker circle jumping
       if (this.isCameraMoving) return;
 
       this.updateColorDisplay();
-    });
+    };
 
-    canvas.addEventListener('mouseleave', () => {
-      // Just hide the local cursor indicator, keep last color state
-      if (this.cursorIndicator) {
-        this.cursorIndicator.visible = false;
+    // Taps only fire without a drag, otherwise the user was orbiting or scrubbing
+    attachPointerGestures(canvas, {
+      onPoint: point,
+      onLeave: () => {
+        // Just hide the local cursor indicator, keep last color state
+        if (this.cursorIndicator) {
+          this.cursorIndicator.visible = false;
+        }
+
+        this.colorCommitter.leave();
+
+        // Emit cursor leave event for other users
+        this.dispatchEvent(new CustomEvent('cursorleave'));
+      },
+      onTap: (clientX, clientY) => {
+        point(clientX, clientY);
+        this.colorCommitter.commit();
+      },
+      // This client has no lock, so holding a finger down just commits like a tap
+      onLongPress: (clientX, clientY) => {
+        point(clientX, clientY);
+        this.colorCommitter.commit();
       }
+    });
 
-      // Emit cursor leave event for other users
-      this.dispatchEvent(new CustomEvent('cursorleave'));
+    window.addEventListener('keydown', (event) => {
+      if (event.key === 'Enter') {
+        this.colorCommitter.commit();
+      }
     });
   }
 
@@ -188,11 +228,8 @@ class RGBCubeVisualizer extends EventTarget {
       const gClamped = Math.max(0, Math.min(255, g));
       const bClamped = Math.max(0, Math.min(255, b));
 
-      const toHex = (n: number) => {
-        const hex = n.toString(16);
-        return hex.length === 1 ? '0' + hex : hex;
-      };
-      const hexColor = `#${toHex(rClamped)}${toHex(gClamped)}${toHex(bClamped)}`;
+      const rgb = { r: rClamped, g: gClamped, b: bClamped };
+      const hexColor = rgbToHex(rgb);
 
       // Show and position cursor indicator
       if (this.cursorIndicator && normal) {
@@ -209,11 +246,8 @@ class RGBCubeVisualizer extends EventTarget {
         // Update cursor color to match the hovered color
         (this.cursorIndicator.material as THREE.MeshBasicMaterial).color.setStyle(hexColor);
 
-        // Send color update to PartyKit to set user's color
-        console.log('Dispatching colorchange event:', hexColor);
-        this.dispatchEvent(new CustomEvent('colorchange', {
-          detail: { color: hexColor, rgb: { r: rClamped, g: gClamped, b: bClamped } }
-        }));
+        // Resting on a color long enough commits it as the user's color
+        this.colorCommitter.hover(hexColor);
 
         // Emit color pick event
         this.dispatchEvent(new CustomEvent('colorpick', {
@@ -221,18 +255,19 @@ class RGBCubeVisualizer extends EventTarget {
             position: { x: point.x, y: point.y, z: point.z },
             normal: { x: normal.x, y: normal.y, z: normal.z },
             color: hexColor,
-            rgb: { r: rClamped, g: gClamped, b: bClamped }
+            rgb
           }
         }));
       }
 
-      this.colorDisplay.textContent = `RGB(${rClamped}, ${gClamped}, ${bClamped}) • ${hexColor.toUpperCase()}`;
+      this.colorDisplay.textContent = `${formatColor(rgb, 'rgb')} • ${formatColor(rgb, 'hex')}`;
       this.colorDisplay.style.backgroundColor = hexColor;
-      this.colorDisplay.style.color = (rClamped + gClamped + bClamped) > 384 ? 'black' : 'white';
+      this.colorDisplay.style.color = readableTextColor(rgb);
     } else {
       if (this.cursorIndicator) {
         this.cursorIndicator.visible = false;
       }
+      this.colorCommitter.leave();
     }
   }
 
@@ -350,7 +385,7 @@ class RGBCubeVisualizer extends EventTarget {
     this.currentUserSessionId = sessionId;
   }
 
-  showRemoteCursor(sessionId: string, position: any, normal: any, color: string): void {
+  showRemoteCursor(sessionId: string, position: Vec3, normal: Vec3, color: string): void {
     this.updateRemoteCursor(sessionId, position, normal, color);
     this.updateUserColorCircleInternal(sessionId, color);
   }
@@ -383,7 +418,7 @@ class RGBCubeVisualizer extends EventTarget {
     }
   }
 
-  syncCamera(cameraData: any): void {
+  syncCamera(cameraData: CameraState): void {
     // Direct camera sync without blocking delays for responsive real-time sync
     // Removed 100ms blocking timeout that was causing lag in camera updates
     this.camera.position.set(cameraData.position.x, cameraData.position.y, cameraData.position.z);
@@ -391,7 +426,7 @@ class RGBCubeVisualizer extends EventTarget {
     this.controls.update();
   }
 
-  private updateRemoteCursor(sessionId: string, position: any, normal: any, color: string): void {
+  private updateRemoteCursor(sessionId: string, position: Vec3, normal: Vec3, color: string): void {
     let remoteCursor = this.remoteCursors.get(sessionId);
 
     if (!remoteCursor) {
@@ -569,8 +604,9 @@ class RGBCubeVisualizer extends EventTarget {
 
 // PartyKit connection manager
 class ColorPickerConnection {
-  private socket: any = null; // PartySocket type
+  private socket: PartySocket | null = null;
   private colorPicker: RGBCubeVisualizer;
+  private nextCursorTiming = createCursorClock();
 
   constructor(colorPicker: RGBCubeVisualizer, partyHost?: string) {
     this.colorPicker = colorPicker;
@@ -589,11 +625,15 @@ class ColorPickerConnection {
 
           this.socket.addEventListener('open', () => {
         console.log('PartySocket connected');
+        this.send({
+          type: 'identify',
+          persistentUserId: this.getPersistentUserId()
+        });
       });
 
     this.socket.addEventListener('message', (event: MessageEvent) => {
       try {
-        const data = JSON.parse(event.data);
+        const data = parseServerMessage(event.data);
         this.handlePartyMessage(data);
       } catch (error) {
         console.error('Invalid message format:', error);
@@ -608,11 +648,19 @@ class ColorPickerConnection {
     });
   }
 
-  private handlePartyMessage(data: any): void {
+  private handlePartyMessage(data: ServerMessage): void {
     switch (data.type) {
       case 'cursor-move':
         this.colorPicker.showRemoteCursor(data.sessionId, data.position, data.normal, data.color);
         break;
+      case 'cursor-batch':
+        // Batches include our own cursor, which we already draw locally
+        data.cursors.forEach(cursor => {
+          if (cursor.sessionId !== this.colorPicker.currentUserSessionId) {
+            this.colorPicker.showRemoteCursor(cursor.sessionId, cursor.position, cursor.normal, cursor.color);
+          }
+        });
+        break;
       case 'cursor-leave':
         this.colorPicker.hideRemoteCursor(data.sessionId);
         break;
@@ -620,68 +668,79 @@ class ColorPickerConnection {
         this.colorPicker.removeUser(data.sessionId);
         break;
       case 'camera-sync':
-        this.colorPicker.syncCamera(data.camera);
+        // Camera sync is follow-the-presenter only, which this legacy client doesn't offer
         break;
       case 'user-count':
         this.colorPicker.updateUserCount(data.count);
         break;
+      case 'user-identified':
+        this.colorPicker.setCurrentUserSessionId(data.sessionId);
+        break;
       case 'user-joined':
         // Create color circle for any user (current or remote)
-        if (!this.colorPicker.currentUserSessionId) {
-          this.colorPicker.setCurrentUserSessionId(data.sessionId);
-          this.colorPicker.updateUserColorCircle(data.sessionId, data.color, true);
-        } else {
-          this.colorPicker.updateUserColorCircle(data.sessionId, data.color, false);
+        this.colorPicker.updateUserColorCircle(data.sessionId, data.color, data.sessionId === this.colorPicker.currentUserSessionId);
+        break;
+      case 'user-resumed':
+        // A returning user takes over their previous session's circle
+        if (data.previousSessionId) {
+          this.colorPicker.removeUser(data.previousSessionId);
         }
+        this.colorPicker.updateUserColorCircle(data.sessionId, data.color, data.sessionId === this.colorPicker.currentUserSessionId);
         break;
       case 'user-color-change':
-        // Update user's color circle when they hover different colors
+        // Update user's color circle when they commit a new color
         console.log('Received user-color-change from PartyKit:', data.sessionId, data.color);
         this.colorPicker.updateUserColor(data.sessionId, data.color);
         break;
+      case 'error':
+        console.error(`Server rejected message (${data.code}):`, data.message);
+        break;
+    }
+  }
+
+  private getPersistentUserId(): string {
+    const stored = localStorage.getItem('color-picker-user-id');
+    if (stored) {
+      return stored;
+    }
+    const newId = crypto.randomUUID();
+    localStorage.setItem('color-picker-user-id', newId);
+    return newId;
+  }
+
+  private send(message: ClientMessage): void {
+    if (this.socket && this.socket.readyState === WebSocket.OPEN) {
+      this.socket.send(encodeMessage(message));
     }
   }
 
   private setupEventListeners(): void {
     this.colorPicker.addEventListener('colorpick', (event: any) => {
-      if (this.socket && this.socket.readyState === WebSocket.OPEN) {
-        this.socket.send(JSON.stringify({
-          type: 'cursor-move',
-          position: event.detail.position,
-          normal: event.detail.normal,
-          color: event.detail.color,
-          rgb: event.detail.rgb
-        }));
-      }
+      this.send({
+        type: 'cursor-move',
+        position: event.detail.position,
+        normal: event.detail.normal,
+        color: event.detail.color,
+        rgb: event.detail.rgb,
+        ...this.nextCursorTiming()
+      });
     });
 
     this.colorPicker.addEventListener('cursorleave', () => {
-      if (this.socket && this.socket.readyState === WebSocket.OPEN) {
-        this.socket.send(JSON.stringify({
-          type: 'cursor-leave'
-        }));
-      }
+      this.send({
+        type: 'cursor-leave'
+      });
     });
 
     this.colorPicker.addEventListener('colorchange', (event: any) => {
-      console.log('ColorPickerConnection received colorchange:', event.detail.color);
-      if (this.socket && this.socket.readyState === WebSocket.OPEN) {
-        console.log('Sending user-color-change to PartyKit:', event.detail.color);
-        this.socket.send(JSON.stringify({
-          type: 'user-color-change',
-          color: event.detail.color
-        }));
-      } else {
-        console.log('Socket not ready:', this.socket?.readyState);
-      }
-    });
+      this.send({
+        type: 'user-color-change',
+        color: event.detail.color
+      });
 
-    this.colorPicker.addEventListener('camerachange', (event: any) => {
-      if (this.socket && this.socket.readyState === WebSocket.OPEN) {
-        this.socket.send(JSON.stringify({
-          type: 'camera-sync',
-          camera: event.detail
-        }));
+      // The server doesn't echo our own change back
+      if (this.colorPicker.currentUserSessionId) {
+        this.colorPicker.updateUserColor(this.colorPicker.currentUserSessionId, event.detail.color);
       }
     });
   }
@@ -0,0 +1,41 @@
+import { heatmapCellIndex, type RGB } from "../src/shared/protocol";
+import type { SqlTag } from "./sql";
+
+// Hover counts per voxel of the RGB cube, kept in the room's SQLite storage.
+// Samples are tallied in memory and written out in batches by persist().
+export class HeatmapStore {
+  private pending = new Map<number, number>();
+
+  constructor(private sql: SqlTag) {}
+
+  init() {
+    this.sql`CREATE TABLE IF NOT EXISTS heatmap (
+      cell INTEGER PRIMARY KEY,
+      hits INTEGER NOT NULL
+    )`;
+  }
+
+  get hasPending(): boolean {
+    return this.pending.size > 0;
+  }
+
+  record(rgb: RGB) {
+    const cell = heatmapCellIndex(rgb);
+    this.pending.set(cell, (this.pending.get(cell) ?? 0) + 1);
+  }
+
+  persist() {
+    for (const [cell, hits] of this.pending) {
+      this.sql`INSERT INTO heatmap (cell, hits) VALUES (${cell}, ${hits})
+        ON CONFLICT(cell) DO UPDATE SET hits = hits + excluded.hits`;
+    }
+    this.pending.clear();
+  }
+
+  cells(): [number, number][] {
+    // Include anything still waiting to be written
+    this.persist();
+    return this.sql<{ cell: number; hits: number }>`SELECT cell, hits FROM heatmap ORDER BY cell`
+      .map(row => [row.cell, row.hits]);
+  }
+}
@@ -0,0 +1,35 @@
+import type { NamedColor } from "../src/shared/protocol";
+import type { SqlTag } from "./sql";
+
+export interface SharedImport {
+  colors: NamedColor[];
+  sharedBy?: string;
+}
+
+// The one imported palette a room has shared, kept so late joiners see it too.
+export class SharedImportStore {
+  constructor(private sql: SqlTag) {}
+
+  init() {
+    this.sql`CREATE TABLE IF NOT EXISTS shared_import (
+      id INTEGER PRIMARY KEY CHECK (id = 1),
+      colors TEXT NOT NULL,
+      shared_by TEXT
+    )`;
+  }
+
+  get(): SharedImport | null {
+    const [row] = this.sql<{ colors: string; shared_by: string | null }>`SELECT colors, shared_by FROM shared_import`;
+    if (!row) return null;
+    return { colors: JSON.parse(row.colors), sharedBy: row.shared_by ?? undefined };
+  }
+
+  set(shared: SharedImport) {
+    this.sql`INSERT INTO shared_import (id, colors, shared_by) VALUES (1, ${JSON.stringify(shared.colors)}, ${shared.sharedBy ?? null})
+      ON CONFLICT(id) DO UPDATE SET colors = excluded.colors, shared_by = excluded.shared_by`;
+  }
+
+  clear() {
+    this.sql`DELETE FROM shared_import`;
+  }
+}
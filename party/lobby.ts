@@ -0,0 +1,51 @@
+import { Server } from "partyserver";
+import { isPrivateRoom } from "../src/shared/rooms";
+
+export interface RoomSummary {
+  room: string;
+  userCount: number;
+  updatedAt: number;
+}
+
+// Rooms that haven't reported for this long are assumed gone: their Durable
+// Object was evicted or crashed before it could report its last user leaving.
+// Busy rooms report again well within it (see ColorPickerServer.reportToLobby).
+export const ROOM_STALE_MS = 15 * 60 * 1000;
+
+// A single well-known instance that every ColorPickerServer room reports its
+// user count to, so the worker can list active rooms without fanning out.
+export class RoomLobby extends Server {
+  onStart() {
+    this.sql`CREATE TABLE IF NOT EXISTS rooms (
+      room TEXT PRIMARY KEY,
+      user_count INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    )`;
+  }
+
+  updateRoom(room: string, userCount: number) {
+    if (isPrivateRoom(room)) return;
+
+    this.sql`DELETE FROM rooms WHERE updated_at < ${Date.now() - ROOM_STALE_MS}`;
+
+    if (userCount > 0) {
+      this.sql`INSERT INTO rooms (room, user_count, updated_at)
+        VALUES (${room}, ${userCount}, ${Date.now()})
+        ON CONFLICT(room) DO UPDATE SET user_count = excluded.user_count, updated_at = excluded.updated_at`;
+    } else {
+      this.sql`DELETE FROM rooms WHERE room = ${room}`;
+    }
+  }
+
+  listRooms(): RoomSummary[] {
+    return this.sql<{ room: string; user_count: number; updated_at: number }>`
+      SELECT room, user_count, updated_at FROM rooms
+      WHERE user_count > 0 AND updated_at >= ${Date.now() - ROOM_STALE_MS}
+      ORDER BY user_count DESC, room ASC
+    `.map(row => ({
+      room: row.room,
+      userCount: row.user_count,
+      updatedAt: row.updated_at
+    }));
+  }
+}
@@ -0,0 +1,59 @@
+import type { Swatch } from "../src/shared/protocol";
+import type { SqlTag } from "./sql";
+
+// The room's shared palette, kept in its SQLite storage. Palettes are small, so
+// every edit simply rewrites the order of the whole list.
+export class PaletteStore {
+  constructor(private sql: SqlTag) {}
+
+  init() {
+    this.sql`CREATE TABLE IF NOT EXISTS palette (
+      id TEXT PRIMARY KEY,
+      color TEXT NOT NULL,
+      added_by TEXT,
+      position INTEGER NOT NULL
+    )`;
+  }
+
+  list(): Swatch[] {
+    return this.sql<{ id: string; color: string; added_by: string | null }>`
+      SELECT id, color, added_by FROM palette ORDER BY position
+    `.map(row => ({
+      id: row.id,
+      color: row.color,
+      addedBy: row.added_by ?? undefined
+    }));
+  }
+
+  add(swatch: Swatch) {
+    const [row] = this.sql<{ next: number }>`SELECT COALESCE(MAX(position) + 1, 0) AS next FROM palette`;
+    this.sql`INSERT INTO palette (id, color, added_by, position)
+      VALUES (${swatch.id}, ${swatch.color}, ${swatch.addedBy ?? null}, ${row.next})`;
+  }
+
+  // Does nothing if either swatch has gone (e.g. removed by someone else meanwhile)
+  move(id: string, afterId: string | null) {
+    const swatches = this.list();
+    const moving = swatches.find(swatch => swatch.id === id);
+    if (!moving || id === afterId) return;
+
+    const rest = swatches.filter(swatch => swatch.id !== id);
+    const insertAt = afterId === null ? 0 : rest.findIndex(swatch => swatch.id === afterId) + 1;
+    if (insertAt === 0 && afterId !== null) return;
+
+    rest.splice(insertAt, 0, moving);
+    rest.forEach((swatch, position) => {
+      this.sql`UPDATE palette SET position = ${position} WHERE id = ${swatch.id}`;
+    });
+  }
+
+  remove(id: string): boolean {
+    const [row] = this.sql<{ id: string }>`DELETE FROM palette WHERE id = ${id} RETURNING id`;
+    return row !== undefined;
+  }
+
+  count(): number {
+    const [row] = this.sql<{ count: number }>`SELECT COUNT(*) AS count FROM palette`;
+    return row?.count ?? 0;
+  }
+}
@@ -0,0 +1,40 @@
+import type { SqlTag } from "./sql";
+
+export interface RecentPick {
+  sessionId: string;
+  color: string;
+  pickedAt: number;
+}
+
+// Only the tail is ever read, so older picks are trimmed as new ones arrive
+const MAX_STORED_PICKS = 100;
+
+// Colors users committed in this room, newest last, for the HTTP room state API.
+export class PickLog {
+  constructor(private sql: SqlTag) {}
+
+  init() {
+    this.sql`CREATE TABLE IF NOT EXISTS picks (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      session_id TEXT NOT NULL,
+      color TEXT NOT NULL,
+      picked_at INTEGER NOT NULL
+    )`;
+  }
+
+  record(sessionId: string, color: string) {
+    this.sql`INSERT INTO picks (session_id, color, picked_at) VALUES (${sessionId}, ${color}, ${Date.now()})`;
+    this.sql`DELETE FROM picks WHERE id <= (SELECT MAX(id) FROM picks) - ${MAX_STORED_PICKS}`;
+  }
+
+  recent(limit: number): RecentPick[] {
+    const rows = this.sql<{ session_id: string; color: string; picked_at: number }>`
+      SELECT session_id, color, picked_at FROM picks ORDER BY id DESC LIMIT ${limit}
+    `;
+    return rows.reverse().map(row => ({
+      sessionId: row.session_id,
+      color: row.color,
+      pickedAt: row.picked_at
+    }));
+  }
+}
@@ -0,0 +1,78 @@
+import type { Pin } from "../src/shared/protocol";
+import type { SqlTag } from "./sql";
+
+// A pin as stored; authorId is a persistentUserId and never leaves the server
+export interface StoredPin extends Omit<Pin, "mine"> {
+  authorId: string;
+  createdAt: number;
+}
+
+type PinRow = {
+  id: string;
+  label: string;
+  color: string;
+  placement: string;
+  author_id: string;
+  author_name: string | null;
+  created_at: number;
+};
+
+function fromRow(row: PinRow): StoredPin {
+  const { rgb, position, normal } = JSON.parse(row.placement);
+  return {
+    id: row.id,
+    label: row.label,
+    color: row.color,
+    rgb,
+    position,
+    normal,
+    authorId: row.author_id,
+    authorName: row.author_name ?? undefined,
+    createdAt: row.created_at
+  };
+}
+
+// Pins dropped in this room, kept in its SQLite storage so they survive restarts.
+export class PinStore {
+  constructor(private sql: SqlTag) {}
+
+  init() {
+    this.sql`CREATE TABLE IF NOT EXISTS pins (
+      id TEXT PRIMARY KEY,
+      label TEXT NOT NULL,
+      color TEXT NOT NULL,
+      placement TEXT NOT NULL,
+      author_id TEXT NOT NULL,
+      author_name TEXT,
+      created_at INTEGER NOT NULL
+    )`;
+  }
+
+  list(): StoredPin[] {
+    return this.sql<PinRow>`SELECT * FROM pins ORDER BY created_at`.map(fromRow);
+  }
+
+  count(): number {
+    const [row] = this.sql<{ count: number }>`SELECT COUNT(*) AS count FROM pins`;
+    return row?.count ?? 0;
+  }
+
+  get(id: string): StoredPin | null {
+    const [row] = this.sql<PinRow>`SELECT * FROM pins WHERE id = ${id}`;
+    return row ? fromRow(row) : null;
+  }
+
+  create(pin: StoredPin) {
+    const placement = JSON.stringify({ rgb: pin.rgb, position: pin.position, normal: pin.normal });
+    this.sql`INSERT INTO pins (id, label, color, placement, author_id, author_name, created_at)
+      VALUES (${pin.id}, ${pin.label}, ${pin.color}, ${placement}, ${pin.authorId}, ${pin.authorName ?? null}, ${pin.createdAt})`;
+  }
+
+  rename(id: string, label: string) {
+    this.sql`UPDATE pins SET label = ${label} WHERE id = ${id}`;
+  }
+
+  delete(id: string) {
+    this.sql`DELETE FROM pins WHERE id = ${id}`;
+  }
+}
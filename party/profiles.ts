@@ -0,0 +1,64 @@
+import type { RGB, Vec3 } from "../src/shared/protocol";
+import type { SqlTag } from "./sql";
+
+export interface StoredCursor {
+  position: Vec3;
+  normal: Vec3;
+  rgb?: RGB;
+}
+
+export interface Profile {
+  color: string;
+  displayName?: string;
+  avatar?: string;
+  lastCursor?: StoredCursor;
+}
+
+// Profiles nobody has used in this long are pruned on startup
+const PROFILE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Per-persistentUserId profile data kept in the room's SQLite storage, so a
+// refresh or reconnect gets the same color and cursor back. Names and avatars
+// normally come with identify from the browser, which shares them across rooms;
+// the copy here only serves clients that don't send one.
+export class ProfileStore {
+  constructor(private sql: SqlTag) {}
+
+  init() {
+    this.sql`CREATE TABLE IF NOT EXISTS profiles (
+      persistent_user_id TEXT PRIMARY KEY,
+      color TEXT NOT NULL,
+      display_name TEXT,
+      avatar TEXT,
+      last_cursor TEXT,
+      updated_at INTEGER NOT NULL
+    )`;
+    this.sql`DELETE FROM profiles WHERE updated_at < ${Date.now() - PROFILE_TTL_MS}`;
+  }
+
+  get(persistentUserId: string): Profile | null {
+    const [row] = this.sql<{ color: string; display_name: string | null; avatar: string | null; last_cursor: string | null }>`
+      SELECT color, display_name, avatar, last_cursor FROM profiles WHERE persistent_user_id = ${persistentUserId}
+    `;
+    if (!row) return null;
+
+    return {
+      color: row.color,
+      displayName: row.display_name ?? undefined,
+      avatar: row.avatar ?? undefined,
+      lastCursor: row.last_cursor ? JSON.parse(row.last_cursor) : undefined
+    };
+  }
+
+  save(persistentUserId: string, profile: Profile) {
+    const lastCursor = profile.lastCursor ? JSON.stringify(profile.lastCursor) : null;
+    this.sql`INSERT INTO profiles (persistent_user_id, color, display_name, avatar, last_cursor, updated_at)
+      VALUES (${persistentUserId}, ${profile.color}, ${profile.displayName ?? null}, ${profile.avatar ?? null}, ${lastCursor}, ${Date.now()})
+      ON CONFLICT(persistent_user_id) DO UPDATE SET
+        color = excluded.color,
+        display_name = excluded.display_name,
+        avatar = excluded.avatar,
+        last_cursor = excluded.last_cursor,
+        updated_at = excluded.updated_at`;
+  }
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { TokenBucket, type RateLimitConfig } from "./rateLimit";
+
+const config: RateLimitConfig = { messagesPerSecond: 10, burst: 5, disconnectAfter: 3 };
+
+function takeAll(bucket: TokenBucket, count: number, now: number) {
+  return Array.from({ length: count }, () => bucket.take(now));
+}
+
+describe("TokenBucket", () => {
+  it("allows a full burst at once, then throttles", () => {
+    const bucket = new TokenBucket(config, 0);
+    expect(takeAll(bucket, 5, 0)).toEqual(Array(5).fill("allowed"));
+    expect(bucket.take(0)).toBe("throttled");
+  });
+
+  it("refills at messagesPerSecond, up to the burst", () => {
+    const bucket = new TokenBucket(config, 0);
+    takeAll(bucket, 5, 0);
+
+    // One token every 100 ms
+    expect(bucket.take(50)).toBe("throttled");
+    expect(bucket.take(150)).toBe("allowed");
+    expect(bucket.take(150)).toBe("throttled");
+
+    // A long rest still only buys one burst
+    expect(takeAll(bucket, 6, 60_000)).toEqual([...Array(5).fill("allowed"), "throttled"]);
+  });
+
+  it("turns throttled into exceeded past disconnectAfter drops", () => {
+    const bucket = new TokenBucket(config, 0);
+    takeAll(bucket, 5, 0);
+    expect(takeAll(bucket, 4, 0)).toEqual(["throttled", "throttled", "throttled", "exceeded"]);
+  });
+
+  it("forgets drops once the window is over", () => {
+    const bucket = new TokenBucket(config, 0);
+    takeAll(bucket, 5, 0);
+    takeAll(bucket, 3, 0);
+
+    takeAll(bucket, 5, 10_001);
+    expect(bucket.take(10_001)).toBe("throttled");
+    expect(bucket.justStartedDropping).toBe(true);
+  });
+
+  it("reports the start of dropping only once per window", () => {
+    const bucket = new TokenBucket(config, 0);
+    takeAll(bucket, 5, 0);
+    expect(bucket.justStartedDropping).toBe(false);
+
+    bucket.take(0);
+    expect(bucket.justStartedDropping).toBe(true);
+    bucket.take(0);
+    expect(bucket.justStartedDropping).toBe(false);
+    // A message let through in between doesn't start it over
+    expect(bucket.take(100)).toBe("allowed");
+    bucket.take(100);
+    expect(bucket.justStartedDropping).toBe(false);
+  });
+});
@@ -0,0 +1,53 @@
+export interface RateLimitConfig {
+  // Sustained messages per second a connection may send
+  messagesPerSecond: number;
+  // Extra messages allowed in a short burst
+  burst: number;
+  // Dropped messages within one window before the connection is closed
+  disconnectAfter: number;
+}
+
+export type RateLimitResult = "allowed" | "throttled" | "exceeded";
+
+// Drops are counted over this window when deciding to disconnect
+const DROP_WINDOW_MS = 10_000;
+
+// Classic token bucket: each message costs one token, tokens refill continuously
+// up to `burst`. Messages arriving with an empty bucket are dropped, and a client
+// that keeps flooding past `disconnectAfter` drops per window is cut off.
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill: number;
+  private dropped = 0;
+  private windowStart: number;
+
+  constructor(private config: RateLimitConfig, now = Date.now()) {
+    this.tokens = config.burst;
+    this.lastRefill = now;
+    this.windowStart = now;
+  }
+
+  take(now = Date.now()): RateLimitResult {
+    const elapsed = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.config.burst, this.tokens + elapsed * this.config.messagesPerSecond);
+    this.lastRefill = now;
+
+    if (now - this.windowStart > DROP_WINDOW_MS) {
+      this.windowStart = now;
+      this.dropped = 0;
+    }
+
+    if (this.tokens >= 1) {
+      this.tokens -= 1;
+      return "allowed";
+    }
+
+    this.dropped++;
+    return this.dropped > this.config.disconnectAfter ? "exceeded" : "throttled";
+  }
+
+  // True for the first dropped message of a window, so clients are told once rather than per drop
+  get justStartedDropping(): boolean {
+    return this.dropped === 1;
+  }
+}
@@ -1,164 +1,879 @@
-import { routePartykitRequest, Server, type Connection, } from "partyserver";
+import { getServerByName, routePartykitRequest, Server, type Connection, } from "partyserver";
+import { RoomLobby } from "./lobby";
+import { TokenBucket, type RateLimitConfig } from "./rateLimit";
+import { ProfileStore, type StoredCursor } from "./profiles";
+import { PickLog } from "./picks";
+import { HeatmapStore } from "./heatmap";
+import { PinStore, type StoredPin } from "./pins";
+import { PaletteStore } from "./palette";
+import { SharedImportStore } from "./imports";
+import { normalizeRoomId } from "../src/shared/rooms";
+import {
+  BINARY_FRAME_VERSION,
+  encodeMessage,
+  encodeServerFrame,
+  HEATMAP_RESOLUTION,
+  parseClientMessage,
+  ProtocolError,
+  rgbToHex,
+  type CameraState,
+  type CursorState,
+  type LockedSelection,
+  type Pin,
+  type ServerMessage,
+  type SliceState,
+  type UserProfile,
+} from "../src/shared/protocol";
+
+export { RoomLobby };
+
+// A Durable Object binding, i.e. DurableObjectNamespace<T>, taken from partyserver
+// since the workers types aren't visible to this file
+type ServerNamespace<T extends Server<Env>> = Parameters<typeof getServerByName<Env, T>>[0];
+
+type Env = {
+  ColorPickerServer: ServerNamespace<ColorPickerServer>;
+  RoomLobby: ServerNamespace<RoomLobby>;
+  // Tuning knobs from wrangler.json "vars"
+  TICK_RATE_HZ: string | undefined;
+  RATE_LIMIT_MESSAGES_PER_SECOND: string | undefined;
+  RATE_LIMIT_BURST: string | undefined;
+  RATE_LIMIT_DISCONNECT_AFTER: string | undefined;
+};
+
+// Name of the single RoomLobby instance every room reports to
+const LOBBY_NAME = "lobby";
+
+// A room whose user count hasn't changed still reports this often while anyone
+// is active in it, so the lobby doesn't take it for stale (see ROOM_STALE_MS)
+const LOBBY_REFRESH_MS = 5 * 60 * 1000;
+
+const DEFAULT_TICK_RATE_HZ = 25;
+
+// A closed session that comes back (same persistentUserId) within this window
+// resumes instead of showing up as a leave followed by a join
+const RESUME_GRACE_MS = 5000;
+
+// Clients that never identify (old builds) are announced after this long anyway
+const ANNOUNCE_TIMEOUT_MS = 2000;
+
+// Hover samples are tallied in memory and written to storage this often
+const HEATMAP_PERSIST_MS = 10000;
+
+// Keeps the pin list (sent whole to every joining client) a sensible size
+const MAX_PINS = 200;
+
+const MAX_PALETTE_SIZE = 64;
+
+// How many committed colors GET /api/rooms/:room reports
+const RECENT_PICKS_LIMIT = 20;
+
+// The room state API is read by dashboards on other origins
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, HEAD, OPTIONS",
+  "Access-Control-Allow-Headers": "If-None-Match",
+  "Access-Control-Expose-Headers": "ETag",
+  "Access-Control-Max-Age": "86400"
+};
 
-export class ColorPickerServer extends Server {
+const DEFAULT_RATE_LIMIT: RateLimitConfig = {
+  messagesPerSecond: 120,
+  burst: 240,
+  disconnectAfter: 1000
+};
+
+function readNumberVar(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return value !== undefined && Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+// Presence state lives on each connection (serialized as its WebSocket
+// attachment) rather than in instance memory, so it survives hibernation.
+interface UserState extends UserProfile {
+  color: string;
+  persistentUserId?: string;
+  lastCursor?: StoredCursor;
+  // Other users have been told about this session (user-joined or user-resumed)
+  announced?: boolean;
+  // Client negotiated binary cursor/camera frames during identify
+  binary?: boolean;
+  // Frame layout they were agreed in; 1 when missing
+  binaryVersion?: number;
+  // Broadcasting their camera for others to follow
+  presenting?: boolean;
+  lastCamera?: CameraState;
+  lastSlice?: SliceState;
+  // Color they clicked to hold onto, replayed to anyone who joins later
+  lockedSelection?: LockedSelection;
+  // Set when a newer session with the same persistentUserId takes over
+  replaced?: boolean;
+}
+
+type UserConnection = Connection<UserState>;
+
+export class ColorPickerServer extends Server<Env> {
   static options = { hibernate: true };
-  // Store connected users with their colors and persistent IDs
-  private connectedUsers = new Map<string, {
-    color: string;
-    persistentUserId?: string;
-    lastCursorPosition?: any;
-    lastCursorNormal?: any;
-  }>();
-
-  onConnect(conn: Connection) {
+
+  // Set by DurableObject, whose typings come from "cloudflare:workers" and don't
+  // resolve outside the Workers runtime
+  declare env: Env;
+
+  // High-frequency updates are coalesced here and flushed once per tick. This is
+  // deliberately in memory: a pending flush keeps the object awake until it runs.
+  private pendingCursors = new Map<string, CursorState>();
+  private pendingColors = new Map<string, string>();
+  private pendingCameras = new Map<string, CameraState>();
+  private pendingSlices = new Map<string, SliceState | null>();
+  private pendingSelections = new Map<string, LockedSelection | null>();
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private lastLobbyReport = 0;
+
+  private rateLimiters = new Map<string, TokenBucket>();
+
+  // Sessions waiting on identify before being announced, and recently closed
+  // sessions (by persistentUserId) that may still resume
+  private pendingAnnouncements = new Map<string, ReturnType<typeof setTimeout>>();
+  private departingSessions = new Map<string, { sessionId: string; timer: ReturnType<typeof setTimeout> }>();
+
+  private profiles = new ProfileStore((strings, ...values) => this.sql(strings, ...values));
+  private picks = new PickLog((strings, ...values) => this.sql(strings, ...values));
+  private heatmap = new HeatmapStore((strings, ...values) => this.sql(strings, ...values));
+  private heatmapPersistTimer: ReturnType<typeof setTimeout> | null = null;
+  private pins = new PinStore((strings, ...values) => this.sql(strings, ...values));
+  private palette = new PaletteStore((strings, ...values) => this.sql(strings, ...values));
+  private sharedImport = new SharedImportStore((strings, ...values) => this.sql(strings, ...values));
+
+  onStart() {
+    this.profiles.init();
+    this.picks.init();
+    this.heatmap.init();
+    this.pins.init();
+    this.palette.init();
+    this.sharedImport.init();
+  }
+
+  // Read-only room state for GET /api/rooms/:room and /api/rooms/:room/heatmap
+  async onRequest(request: Request): Promise<Response> {
+    if (request.method === "OPTIONS") {
+      return new Response(null, { status: 204, headers: CORS_HEADERS });
+    }
+    if (request.method !== "GET" && request.method !== "HEAD") {
+      return new Response("Method Not Allowed", {
+        status: 405,
+        headers: { ...CORS_HEADERS, Allow: "GET, HEAD, OPTIONS" }
+      });
+    }
+
+    // No timestamps of our own in the body, so an unchanged room keeps its ETag
+    const url = new URL(request.url);
+    const body = JSON.stringify(url.pathname.endsWith("/heatmap") ? this.getHeatmapState() : this.getRoomState());
+    const digest = await crypto.subtle.digest("SHA-1", new TextEncoder().encode(body));
+    const etag = `"${Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, "0")).join("")}"`;
+    const headers = {
+      ...CORS_HEADERS,
+      "Content-Type": "application/json",
+      "Cache-Control": "no-cache",
+      ETag: etag
+    };
+
+    if (request.headers.get("If-None-Match") === etag) {
+      return new Response(null, { status: 304, headers });
+    }
+    return new Response(request.method === "HEAD" ? null : body, { headers });
+  }
+
+  onConnect(conn: UserConnection) {
     console.log(`User ${conn.id} connected`);
 
-    // Assign a random color to the new user immediately
-    const userColor = this.generateRandomColor();
-    this.connectedUsers.set(conn.id, {
-      color: userColor
+    // Assign a random color to the new user immediately; identify may restore their old one
+    conn.setState({
+      color: this.generateRandomColor()
     });
 
     // Send existing users to the new connection FIRST
-    console.log(`Sending ${this.connectedUsers.size - 1} existing users to new user ${conn.id}`);
     this.sendExistingUsers(conn);
 
-    // Send the new user their own color (this triggers their session ID setup)
-    conn.send(JSON.stringify({
-      type: 'user-joined',
-      sessionId: conn.id,
-      color: userColor
-    }));
-
-    // Broadcast new user to all other connections
-    this.broadcast(JSON.stringify({
-      type: 'user-joined',
-      sessionId: conn.id,
-      color: userColor
-    }), [conn.id]); // Exclude the new user
+    // Hold off announcing until identify tells us whether this is a returning user
+    this.pendingAnnouncements.set(conn.id, setTimeout(() => {
+      this.pendingAnnouncements.delete(conn.id);
+      const pending = this.getConnection<UserState>(conn.id);
+      if (pending && !pending.state?.announced) {
+        this.announce(pending);
+      }
+    }, ANNOUNCE_TIMEOUT_MS));
 
     // Send updated user count to all connections
     this.broadcastUserCount();
   }
 
-  async onMessage(sender: Connection, message: string | ArrayBuffer) {
+  async onMessage(sender: UserConnection, message: string | ArrayBuffer) {
+    if (!this.allowMessage(sender)) return;
+
     try {
-      const data = JSON.parse(message as string);
+      const data = parseClientMessage(message);
 
       switch (data.type) {
         case 'identify':
-          // Handle persistent user ID
-          const existingUser = this.connectedUsers.get(sender.id);
+          // Restore the returning user's profile and take over their previous session
+          const existingUser = this.getUser(sender);
           if (existingUser) {
-            existingUser.persistentUserId = data.persistentUserId;
+            const profile = this.profiles.get(data.persistentUserId);
+            const previousSessionId = this.takeOverPreviousSession(data.persistentUserId, sender.id);
+
+            // Frames go in whichever layout the older of us reads
+            const binaryVersion = data.binary ? Math.min(data.binaryVersion ?? 1, BINARY_FRAME_VERSION) : undefined;
+            // The browser's own copy of the name and avatar wins, so they follow the user between rooms
+            const { displayName, avatar } = data.profile ?? profile ?? {};
+            const identified: UserState = {
+              ...existingUser,
+              persistentUserId: data.persistentUserId,
+              binary: data.binary,
+              binaryVersion,
+              color: profile?.color ?? existingUser.color,
+              displayName,
+              avatar,
+              lastCursor: profile?.lastCursor ?? existingUser.lastCursor
+            };
+            sender.setState(identified);
+            this.saveProfile(identified);
+
+            // Send confirmation back to client
+            this.sendMessage(sender, {
+              type: 'user-identified',
+              sessionId: sender.id,
+              binary: data.binary,
+              binaryVersion
+            });
 
-            // Clean up any old sessions with same persistent ID
-            this.cleanupOldSessions(data.persistentUserId, sender.id);
+            this.announce(sender, previousSessionId);
           }
-
-          // Send confirmation back to client
-          sender.send(JSON.stringify({
-            type: 'user-identified',
-            sessionId: sender.id
-          }));
           break;
 
         case 'cursor-move':
           // Update cursor position for existing user (user must already exist)
-          const user = this.connectedUsers.get(sender.id);
+          const user = this.getUser(sender);
           if (user) {
-            user.lastCursorPosition = data.position;
-            user.lastCursorNormal = data.normal;
+            sender.setState({
+              ...user,
+              lastCursor: { position: data.position, normal: data.normal, rgb: data.rgb }
+            });
 
-            // Broadcast cursor position to all other connections using the user's assigned color
-            this.broadcast(JSON.stringify({
-              type: 'cursor-move',
+            // Queue the latest cursor position for the next tick using the user's assigned color
+            this.pendingCursors.set(sender.id, {
               sessionId: sender.id,
               position: data.position,
               normal: data.normal,
               color: user.color, // Use the user's assigned color, not from client
-              rgb: data.rgb
-            }), [sender.id]); // Exclude sender
+              rgb: data.rgb,
+              seq: data.seq,
+              sentAt: data.sentAt
+            });
+            this.scheduleFlush();
           }
           break;
 
         case 'cursor-leave':
+          // Drop any queued move so the cursor doesn't reappear after leaving
+          this.pendingCursors.delete(sender.id);
+
           // Broadcast cursor leave to all other connections
-          this.broadcast(JSON.stringify({
+          this.broadcastMessage({
             type: 'cursor-leave',
             sessionId: sender.id
-          }), [sender.id]); // Exclude sender
+          }, [sender.id]); // Exclude sender
           break;
 
         case 'user-color-change':
           // Update user's color in server state
           console.log(`User ${sender.id} changed color to:`, data.color);
-          const userToUpdate = this.connectedUsers.get(sender.id);
+          const userToUpdate = this.getUser(sender);
           if (userToUpdate) {
-            userToUpdate.color = data.color;
+            sender.setState({ ...userToUpdate, color: data.color });
+            this.saveProfile({ ...userToUpdate, color: data.color });
+            this.picks.record(sender.id, data.color);
 
-            // Broadcast color change to all connections
-            this.broadcast(JSON.stringify({
-              type: 'user-color-change',
-              sessionId: sender.id,
-              color: data.color
-            }));
-            console.log(`Broadcasted color change for ${sender.id}:`, data.color);
+            // Colors only change on an explicit commit now, but still only send the latest per tick
+            this.pendingColors.set(sender.id, data.color);
+            this.scheduleFlush();
+          }
+          break;
+
+        case 'user-profile':
+          // Names and avatars were validated (and blanks dropped) by parseClientMessage
+          const profileOwner = this.getUser(sender);
+          if (profileOwner) {
+            const updated: UserState = { ...profileOwner, displayName: data.displayName, avatar: data.avatar };
+            sender.setState(updated);
+            this.saveProfile(updated);
+
+            // Rare enough to send straight away, and the sender's own roster uses the echo
+            if (updated.announced) {
+              this.broadcastMessage({
+                type: 'user-profile',
+                sessionId: sender.id,
+                displayName: data.displayName,
+                avatar: data.avatar
+              });
+            }
+          }
+          break;
+
+        case 'heatmap-request':
+          this.sendMessage(sender, { type: 'heatmap', ...this.getHeatmapState() });
+          break;
+
+        case 'pin-create':
+          const pinAuthor = this.getUser(sender);
+          if (!pinAuthor?.persistentUserId) {
+            throw new ProtocolError('not-allowed', 'Identify before dropping pins');
+          }
+          if (this.pins.count() >= MAX_PINS) {
+            throw new ProtocolError('limit-reached', `Rooms are limited to ${MAX_PINS} pins`);
+          }
+
+          const newPin: StoredPin = {
+            id: crypto.randomUUID(),
+            label: data.label,
+            color: rgbToHex(data.rgb),
+            rgb: data.rgb,
+            position: data.position,
+            normal: data.normal,
+            authorId: pinAuthor.persistentUserId,
+            authorName: pinAuthor.displayName,
+            createdAt: Date.now()
+          };
+          this.pins.create(newPin);
+          this.broadcastPin(newPin);
+          break;
+
+        case 'pin-rename':
+          const pinToRename = this.getOwnPin(sender, data.id);
+          this.pins.rename(pinToRename.id, data.label);
+          this.broadcastPin({ ...pinToRename, label: data.label });
+          break;
+
+        case 'pin-delete':
+          const pinToDelete = this.getOwnPin(sender, data.id);
+          this.pins.delete(pinToDelete.id);
+          this.broadcastMessage({
+            type: 'pin-delete',
+            id: pinToDelete.id
+          });
+          break;
+
+        case 'imported-colors':
+          // Any import replaces the room's current one; an empty list stops sharing
+          const sharer = this.getUser(sender);
+          const sharedBy = sharer?.displayName ?? `User ${sender.id.slice(-4)}`;
+          if (data.colors.length > 0) {
+            this.sharedImport.set({ colors: data.colors, sharedBy });
+          } else {
+            this.sharedImport.clear();
+          }
+          this.broadcastMessage({
+            type: 'imported-colors',
+            colors: data.colors,
+            sharedBy
+          }, [sender.id]); // Sender already shows what it shared
+          break;
+
+        case 'palette-add':
+          if (this.palette.count() >= MAX_PALETTE_SIZE) {
+            throw new ProtocolError('limit-reached', `Palettes are limited to ${MAX_PALETTE_SIZE} colors`);
+          }
+          this.palette.add({
+            id: crypto.randomUUID(),
+            color: data.color,
+            addedBy: this.getUser(sender)?.displayName
+          });
+          this.broadcastPalette();
+          break;
+
+        case 'palette-move':
+          // A move that lost a race with a remove still gets the current palette back,
+          // so the mover's optimistic reorder is corrected
+          this.palette.move(data.id, data.afterId);
+          this.broadcastPalette();
+          break;
+
+        case 'palette-remove':
+          if (this.palette.remove(data.id)) {
+            this.broadcastPalette();
           }
           break;
 
         case 'camera-sync':
-          // Broadcast camera changes to all other connections
-          this.broadcast(JSON.stringify({
-            type: 'camera-sync',
-            camera: data.camera
-          }), [sender.id]); // Exclude sender
+          // Only presenters share their camera; followers pick which presenter to apply
+          const presenter = this.getUser(sender);
+          if (presenter?.presenting) {
+            sender.setState({ ...presenter, lastCamera: data.camera });
+            this.pendingCameras.set(sender.id, data.camera);
+            this.scheduleFlush();
+          }
+          break;
+
+        case 'slice-sync':
+          // Shared like the camera, and batched with it so both land in the same frame
+          const slicer = this.getUser(sender);
+          if (slicer?.presenting) {
+            sender.setState({ ...slicer, lastSlice: data.slice ?? undefined });
+            this.pendingSlices.set(sender.id, data.slice);
+            this.scheduleFlush();
+          }
+          break;
+
+        case 'selection-lock':
+          // Arrow keys nudge a lock as fast as they repeat, so only the latest per tick goes out
+          const locker = this.getUser(sender);
+          if (locker) {
+            sender.setState({ ...locker, lockedSelection: data.selection ?? undefined });
+            this.pendingSelections.set(sender.id, data.selection);
+            this.scheduleFlush();
+          }
+          break;
+
+        case 'presenter':
+          const userToPresent = this.getUser(sender);
+          if (userToPresent) {
+            sender.setState({
+              ...userToPresent,
+              presenting: data.presenting,
+              lastCamera: data.presenting ? userToPresent.lastCamera : undefined,
+              lastSlice: data.presenting ? userToPresent.lastSlice : undefined
+            });
+            if (!data.presenting) {
+              this.pendingCameras.delete(sender.id);
+              this.pendingSlices.delete(sender.id);
+            }
+
+            this.broadcastMessage({
+              type: 'presenter-change',
+              sessionId: sender.id,
+              presenting: data.presenting
+            });
+          }
           break;
       }
     } catch (error) {
-      console.error('Invalid message format:', error);
+      if (!(error instanceof ProtocolError)) throw error;
+
+      // Tell the client what was wrong instead of silently dropping it
+      this.sendMessage(sender, {
+        type: 'error',
+        code: error.code,
+        message: error.message
+      });
     }
   }
 
-  onClose(connection: Connection) {
+  onClose(connection: UserConnection) {
     console.log(`User ${connection.id} disconnected`);
 
-    // Remove user from connected users
-    this.connectedUsers.delete(connection.id);
-
-    // Send user disconnect event (removes color circle)
-    this.broadcast(JSON.stringify({
-      type: 'user-disconnect',
-      sessionId: connection.id
-    }));
+    this.pendingCursors.delete(connection.id);
+    this.pendingColors.delete(connection.id);
+    this.pendingCameras.delete(connection.id);
+    this.pendingSlices.delete(connection.id);
+    this.pendingSelections.delete(connection.id);
+    this.rateLimiters.delete(connection.id);
+    clearTimeout(this.pendingAnnouncements.get(connection.id));
+    this.pendingAnnouncements.delete(connection.id);
+
+    // Replaced sessions were already handed over; never-announced ones nobody knows about
+    const user = this.getUser(connection);
+    if (user?.announced) {
+      if (user.persistentUserId) {
+        // Remember where they left off, then give them a moment to come back
+        this.saveProfile(user);
+        this.broadcastMessage({
+          type: 'cursor-leave',
+          sessionId: connection.id
+        });
+        if (user.lockedSelection) {
+          this.broadcastMessage({
+            type: 'selection-lock',
+            sessionId: connection.id,
+            selection: null
+          });
+        }
+        this.scheduleDeparture(user.persistentUserId, connection.id);
+      } else {
+        // Send user disconnect event (removes color circle)
+        this.broadcastMessage({
+          type: 'user-disconnect',
+          sessionId: connection.id
+        });
+      }
+    }
 
     // Update user count
     this.broadcastUserCount();
   }
 
-  private sendExistingUsers(conn: Connection) {
+  private allowMessage(conn: UserConnection): boolean {
+    let limiter = this.rateLimiters.get(conn.id);
+    if (!limiter) {
+      limiter = new TokenBucket(this.getRateLimitConfig());
+      this.rateLimiters.set(conn.id, limiter);
+    }
+
+    const result = limiter.take();
+    if (result === "allowed") return true;
+
+    if (result === "exceeded") {
+      console.log(`Disconnecting ${conn.id} for flooding messages`);
+      conn.close(1008, "Rate limit exceeded");
+    } else if (limiter.justStartedDropping) {
+      this.sendMessage(conn, {
+        type: 'error',
+        code: 'rate-limited',
+        message: 'Too many messages, some are being dropped'
+      });
+    }
+    return false;
+  }
+
+  private getRateLimitConfig(): RateLimitConfig {
+    return {
+      messagesPerSecond: readNumberVar(this.env.RATE_LIMIT_MESSAGES_PER_SECOND, DEFAULT_RATE_LIMIT.messagesPerSecond),
+      burst: readNumberVar(this.env.RATE_LIMIT_BURST, DEFAULT_RATE_LIMIT.burst),
+      disconnectAfter: readNumberVar(this.env.RATE_LIMIT_DISCONNECT_AFTER, DEFAULT_RATE_LIMIT.disconnectAfter)
+    };
+  }
+
+  private scheduleFlush() {
+    if (this.flushTimer) return;
+    const tickMs = 1000 / readNumberVar(this.env.TICK_RATE_HZ, DEFAULT_TICK_RATE_HZ);
+    this.flushTimer = setTimeout(() => this.flush(), tickMs);
+  }
+
+  private flush() {
+    this.flushTimer = null;
+
+    if (Date.now() - this.lastLobbyReport > LOBBY_REFRESH_MS) {
+      this.reportToLobby(this.getUsers().size).catch(error => {
+        console.error('Failed to report room to lobby:', error);
+      });
+    }
+
+    // One heatmap sample per moving cursor per tick, so fast movers don't dominate
+    for (const cursor of this.pendingCursors.values()) {
+      if (cursor.rgb) this.heatmap.record(cursor.rgb);
+    }
+    if (this.heatmap.hasPending) {
+      this.scheduleHeatmapPersist();
+    }
+
+    // One batch for every cursor that moved this tick; clients skip their own entry
+    if (this.pendingCursors.size > 0) {
+      this.broadcastMessage({
+        type: 'cursor-batch',
+        cursors: Array.from(this.pendingCursors.values())
+      });
+      this.pendingCursors.clear();
+    }
+
+    for (const [sessionId, color] of this.pendingColors) {
+      this.broadcastMessage({
+        type: 'user-color-change',
+        sessionId,
+        color
+      }, [sessionId]); // Sender already applied its own change
+    }
+    this.pendingColors.clear();
+
+    for (const [sessionId, camera] of this.pendingCameras) {
+      this.broadcastMessage({
+        type: 'camera-sync',
+        sessionId,
+        camera
+      }, [sessionId]); // Exclude sender
+    }
+    this.pendingCameras.clear();
+
+    for (const [sessionId, slice] of this.pendingSlices) {
+      this.broadcastMessage({
+        type: 'slice-sync',
+        sessionId,
+        slice
+      }, [sessionId]);
+    }
+    this.pendingSlices.clear();
+
+    for (const [sessionId, selection] of this.pendingSelections) {
+      this.broadcastMessage({
+        type: 'selection-lock',
+        sessionId,
+        selection
+      }, [sessionId]);
+    }
+    this.pendingSelections.clear();
+  }
+
+  private scheduleHeatmapPersist() {
+    if (this.heatmapPersistTimer) return;
+    this.heatmapPersistTimer = setTimeout(() => {
+      this.heatmapPersistTimer = null;
+      this.heatmap.persist();
+    }, HEATMAP_PERSIST_MS);
+  }
+
+  private sendMessage(conn: Connection, message: ServerMessage) {
+    conn.send(encodeMessage(message));
+  }
+
+  private broadcastMessage(message: ServerMessage, without: string[] = []) {
+    const frame = encodeServerFrame(message);
+    if (!frame) {
+      this.broadcast(encodeMessage(message), without);
+      return;
+    }
+
+    // Cursor and camera updates go out as binary frames, in the layout each client
+    // negotiated, and as JSON to clients that didn't
+    const json = encodeMessage(message);
+    const frames = new Map<number, ArrayBuffer | null>([[BINARY_FRAME_VERSION, frame]]);
+    for (const conn of this.getConnections<UserState>()) {
+      if (without.includes(conn.id)) continue;
+      const version = conn.state?.binary ? conn.state.binaryVersion ?? 1 : 0;
+      if (version > 0 && !frames.has(version)) {
+        frames.set(version, encodeServerFrame(message, version));
+      }
+      try {
+        conn.send((version > 0 && frames.get(version)) || json);
+      } catch {
+        conn.close(1011, "Unexpected error");
+      }
+    }
+  }
+
+  private getUser(conn: UserConnection): UserState | null {
+    // Connections that were replaced by a newer session are treated as gone
+    const user = conn.state as UserState | null;
+    return user && !user.replaced ? user : null;
+  }
+
+  private getRoomState() {
+    // Sorted so the ETag only changes when the room does
+    const users = Array.from(this.getUsers())
+      .filter(([, user]) => user.announced)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([sessionId, user]) => ({
+        sessionId,
+        color: user.color,
+        displayName: user.displayName,
+        avatar: user.avatar,
+        rgb: user.lastCursor?.rgb
+      }));
+
+    return {
+      room: this.name,
+      userCount: users.length,
+      users,
+      recentPicks: this.picks.recent(RECENT_PICKS_LIMIT)
+    };
+  }
+
+  private getHeatmapState() {
+    return {
+      resolution: HEATMAP_RESOLUTION,
+      cells: this.heatmap.cells()
+    };
+  }
+
+  private getUsers(): Map<string, UserState> {
+    // Rebuild the roster from connection state, which is restored after hibernation
+    const users = new Map<string, UserState>();
+    for (const conn of this.getConnections<UserState>()) {
+      const user = this.getUser(conn);
+      if (user) {
+        users.set(conn.id, user);
+      }
+    }
+    return users;
+  }
+
+  private announce(conn: UserConnection, previousSessionId?: string) {
+    const user = this.getUser(conn);
+    if (!user) return;
+
+    clearTimeout(this.pendingAnnouncements.get(conn.id));
+    this.pendingAnnouncements.delete(conn.id);
+
+    if (previousSessionId || user.announced) {
+      // Returning user: clients swap the old session for this one in place
+      this.broadcastMessage({
+        type: 'user-resumed',
+        sessionId: conn.id,
+        previousSessionId,
+        color: user.color,
+        displayName: user.displayName,
+        avatar: user.avatar
+      });
+    } else {
+      // Broadcast new user to everyone, including themselves (this adds their own circle)
+      this.broadcastMessage({
+        type: 'user-joined',
+        sessionId: conn.id,
+        color: user.color,
+        displayName: user.displayName,
+        avatar: user.avatar
+      });
+    }
+
+    conn.setState({ ...user, announced: true });
+
+    // Pins are marked per recipient, so this waits until we know who they are
+    this.sendMessage(conn, {
+      type: 'pin-list',
+      pins: this.pins.list().map(pin => this.toClientPin(pin, user.persistentUserId))
+    });
+    this.sendMessage(conn, {
+      type: 'palette',
+      swatches: this.palette.list()
+    });
+
+    const shared = this.sharedImport.get();
+    if (shared) {
+      this.sendMessage(conn, { type: 'imported-colors', ...shared });
+    }
+  }
+
+  private broadcastPalette() {
+    this.broadcastMessage({
+      type: 'palette',
+      swatches: this.palette.list()
+    });
+  }
+
+  private getOwnPin(conn: UserConnection, pinId: string): StoredPin {
+    const pin = this.pins.get(pinId);
+    if (!pin) {
+      throw new ProtocolError('not-found', 'That pin no longer exists');
+    }
+    if (pin.authorId !== this.getUser(conn)?.persistentUserId) {
+      throw new ProtocolError('not-allowed', 'Only the author can change a pin');
+    }
+    return pin;
+  }
+
+  private toClientPin({ authorId, createdAt, ...pin }: StoredPin, persistentUserId?: string): Pin {
+    return { ...pin, mine: persistentUserId !== undefined && authorId === persistentUserId };
+  }
+
+  private broadcastPin(pin: StoredPin) {
+    // Rare, so one message per connection is fine; each needs its own `mine` flag
+    for (const conn of this.getConnections<UserState>()) {
+      const user = this.getUser(conn);
+      if (user?.announced) {
+        this.sendMessage(conn, {
+          type: 'pin-upsert',
+          pin: this.toClientPin(pin, user.persistentUserId)
+        });
+      }
+    }
+  }
+
+  private takeOverPreviousSession(persistentUserId: string, currentSessionId: string): string | undefined {
+    // A recently closed session is the common case (page refresh)
+    const departing = this.departingSessions.get(persistentUserId);
+    if (departing) {
+      clearTimeout(departing.timer);
+      this.departingSessions.delete(persistentUserId);
+      return departing.sessionId;
+    }
+
+    // Otherwise the old session may still be open, e.g. its socket hasn't noticed the refresh yet
+    let previousSessionId: string | undefined;
+    for (const conn of this.getConnections<UserState>()) {
+      const user = this.getUser(conn);
+      if (!user || user.persistentUserId !== persistentUserId || conn.id === currentSessionId) continue;
+
+      conn.setState({ ...user, replaced: true });
+      if (!previousSessionId && user.announced) {
+        previousSessionId = conn.id;
+      } else if (user.announced) {
+        // Only one session can be resumed; any others are gone
+        this.broadcastMessage({
+          type: 'user-disconnect',
+          sessionId: conn.id
+        });
+      }
+    }
+    return previousSessionId;
+  }
+
+  private scheduleDeparture(persistentUserId: string, sessionId: string) {
+    const existing = this.departingSessions.get(persistentUserId);
+    if (existing) clearTimeout(existing.timer);
+
+    const timer = setTimeout(() => {
+      this.departingSessions.delete(persistentUserId);
+      this.broadcastMessage({
+        type: 'user-disconnect',
+        sessionId
+      });
+    }, RESUME_GRACE_MS);
+    this.departingSessions.set(persistentUserId, { sessionId, timer });
+  }
+
+  private saveProfile(user: UserState) {
+    if (!user.persistentUserId) return;
+    this.profiles.save(user.persistentUserId, {
+      color: user.color,
+      displayName: user.displayName,
+      avatar: user.avatar,
+      lastCursor: user.lastCursor
+    });
+  }
+
+  private sendExistingUsers(conn: UserConnection) {
     // Send all existing users to the new connection
-    console.log(`sendExistingUsers: ${this.connectedUsers.size} total users, sending to ${conn.id}`);
+    const users = this.getUsers();
+    console.log(`sendExistingUsers: ${users.size} total users, sending to ${conn.id}`);
 
-    for (const [sessionId, user] of this.connectedUsers.entries()) {
-      if (sessionId !== conn.id) {
+    for (const [sessionId, user] of users.entries()) {
+      // Users still waiting to be announced will be broadcast to everyone shortly
+      if (sessionId !== conn.id && user.announced) {
         console.log(`Sending existing user ${sessionId} with color ${user.color} to ${conn.id}`);
 
-        conn.send(JSON.stringify({
+        this.sendMessage(conn, {
           type: 'user-joined',
           sessionId: sessionId,
-          color: user.color
-        }));
+          color: user.color,
+          displayName: user.displayName,
+          avatar: user.avatar
+        });
+
+        // Let the new user follow anyone who is already presenting
+        if (user.presenting) {
+          this.sendMessage(conn, {
+            type: 'presenter-change',
+            sessionId: sessionId,
+            presenting: true,
+            camera: user.lastCamera,
+            slice: user.lastSlice
+          });
+        }
 
         // If the user has a cursor position, send that too
-        if (user.lastCursorPosition && user.lastCursorNormal) {
-          conn.send(JSON.stringify({
+        if (user.lastCursor) {
+          this.sendMessage(conn, {
             type: 'cursor-move',
             sessionId: sessionId,
-            position: user.lastCursorPosition,
-            normal: user.lastCursorNormal,
-            color: user.color
-          }));
+            position: user.lastCursor.position,
+            normal: user.lastCursor.normal,
+            color: user.color,
+            rgb: user.lastCursor.rgb
+          });
+        }
+
+        if (user.lockedSelection) {
+          this.sendMessage(conn, {
+            type: 'selection-lock',
+            sessionId: sessionId,
+            selection: user.lockedSelection
+          });
         }
       }
     }
@@ -172,43 +887,50 @@ export class ColorPickerServer extends Server {
     return `hsl(${hue}, ${saturation}%, ${lightness}%)`;
   }
 
-  private cleanupOldSessions(persistentUserId: string, currentSessionId: string) {
-    // Find and remove any old sessions with the same persistent user ID
-    const toRemove: string[] = [];
-
-    for (const [sessionId, user] of this.connectedUsers.entries()) {
-      if (user.persistentUserId === persistentUserId && sessionId !== currentSessionId) {
-        toRemove.push(sessionId);
-      }
-    }
+  private broadcastUserCount() {
+    // Replaced sessions are on their way out and don't count
+    const userCount = this.getUsers().size;
+    this.broadcastMessage({
+      type: 'user-count',
+      count: userCount
+    });
 
-    // Remove old sessions and notify clients
-    toRemove.forEach(sessionId => {
-      this.connectedUsers.delete(sessionId);
-      this.broadcast(JSON.stringify({
-        type: 'user-disconnect',
-        sessionId: sessionId
-      }));
+    // Keep the lobby's room list up to date
+    this.reportToLobby(userCount).catch(error => {
+      console.error('Failed to report room to lobby:', error);
     });
   }
 
-  private broadcastUserCount() {
-    const connections = Array.from(this.getConnections());
-    const userCount = connections.length;
-    this.broadcast(JSON.stringify({
-      type: 'user-count',
-      count: userCount
-    }));
+  private async reportToLobby(userCount: number) {
+    this.lastLobbyReport = Date.now();
+    const lobby = await getServerByName<Env, RoomLobby>(this.env.RoomLobby, LOBBY_NAME);
+    await lobby.updateRoom(this.name, userCount);
   }
 }
 
 
 export default {
   // Set up your fetch handler to use configured Servers
-  async fetch(request: Request, env: any) {
+  async fetch(request: Request, env: Env) {
     const response = await routePartykitRequest(request, env, {
       // prefix: 'party/parties'
     });
-    return response || new Response("Not Found", { status: 404 });
+    if (response) return response;
+
+    const url = new URL(request.url);
+    if (request.method === "GET" && url.pathname === "/api/rooms") {
+      // List active public rooms for the lobby
+      const lobby = await getServerByName<Env, RoomLobby>(env.RoomLobby, LOBBY_NAME);
+      return Response.json({ rooms: await lobby.listRooms() });
+    }
+
+    const roomMatch = url.pathname.match(/^\/api\/rooms\/([^/]+)(?:\/heatmap)?$/);
+    if (roomMatch) {
+      // The room's Durable Object answers (including CORS preflight) in onRequest
+      const room = await getServerByName(env.ColorPickerServer, normalizeRoomId(roomMatch[1]));
+      return room.fetch(request);
+    }
+
+    return new Response("Not Found", { status: 404 });
   }
 };
@@ -0,0 +1,3 @@
+// The tagged template exposed as `this.sql` on partyserver Durable Objects
+export type SqlValue = string | number | boolean | null;
+export type SqlTag = <T>(strings: TemplateStringsArray, ...values: SqlValue[]) => T[];
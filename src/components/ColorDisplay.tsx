@@ -1,23 +1,107 @@
+import { useState, useCallback, useEffect, useRef } from 'react'
+import { rgbToHex, type RGB } from '../shared/protocol'
+import { COLOR_FORMATS, formatColor, isColorFormatId, readableTextColor, type ColorFormatId } from '../utils/colorFormats'
 import './ColorDisplay.css'
 
+export interface ColorReadout {
+  rgb: RGB
+  // Set when the pointer is over a named color, e.g. one from an imported palette
+  name?: string
+  locked?: boolean
+}
+
 interface ColorDisplayProps {
-  colorText: string
-  backgroundColor: string
-  textColor: string
+  readout: ColorReadout
 }
 
-export function ColorDisplay({ colorText, backgroundColor, textColor }: ColorDisplayProps) {
+const PRIMARY_FORMAT_KEY = 'color-picker-readout-format'
+
+const TOAST_MS = 1500
+
+function loadPrimaryFormat(): ColorFormatId {
+  const stored = localStorage.getItem(PRIMARY_FORMAT_KEY)
+  return isColorFormatId(stored) ? stored : 'hex'
+}
+
+export function ColorDisplay({ readout }: ColorDisplayProps) {
+  const [primaryFormat, setPrimaryFormat] = useState<ColorFormatId>(loadPrimaryFormat)
+  const [toast, setToast] = useState<string | null>(null)
+  const toastTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+
+  const { rgb, name, locked } = readout
+  const primaryText = formatColor(rgb, primaryFormat)
+
+  useEffect(() => () => {
+    if (toastTimerRef.current) clearTimeout(toastTimerRef.current)
+  }, [])
+
+  const handlePrimaryFormatChange = useCallback((id: ColorFormatId) => {
+    setPrimaryFormat(id)
+    localStorage.setItem(PRIMARY_FORMAT_KEY, id)
+  }, [])
+
+  const showToast = useCallback((message: string) => {
+    setToast(message)
+    if (toastTimerRef.current) clearTimeout(toastTimerRef.current)
+    toastTimerRef.current = setTimeout(() => setToast(null), TOAST_MS)
+  }, [])
+
+  const handleCopy = useCallback(async (text: string) => {
+    try {
+      await navigator.clipboard.writeText(text)
+      showToast(`Copied ${text}`)
+    } catch (error) {
+      // Denied permission, or an insecure page without the clipboard API
+      console.error('Failed to copy color:', error)
+      showToast(`Couldn't copy ${text}`)
+    }
+  }, [showToast])
+
   return (
-    <h1
-      id="colorDisplay"
-      className="color-display"
-      style={{
-        color: textColor,
-        backgroundColor
-      }}
-    >
-      {colorText}
-    </h1>
+    <div className="color-readout">
+      <h1
+        id="colorDisplay"
+        className="color-display"
+        style={{
+          color: readableTextColor(rgb),
+          backgroundColor: rgbToHex(rgb)
+        }}
+        title="Click to copy"
+        onClick={() => handleCopy(primaryText)}
+      >
+        {locked ? '🔒 ' : ''}{name ? `${name} • ` : ''}{primaryText}
+      </h1>
+      <div className="color-formats">
+        <select
+          value={primaryFormat}
+          onChange={event => handlePrimaryFormatChange(event.target.value as ColorFormatId)}
+          aria-label="Main color format"
+        >
+          {COLOR_FORMATS.map(format => (
+            <option key={format.id} value={format.id}>
+              {format.label}
+            </option>
+          ))}
+        </select>
+        {COLOR_FORMATS.filter(format => format.id !== primaryFormat).map(format => {
+          const text = format.format(rgb)
+          return (
+            <button
+              key={format.id}
+              className="color-format"
+              onClick={() => handleCopy(text)}
+              title={`Copy ${format.label}`}
+            >
+              {text}
+            </button>
+          )
+        })}
+      </div>
+      {toast && (
+        <div className="color-readout-toast" role="status">
+          {toast}
+        </div>
+      )}
+    </div>
   )
 }
-
@@ -1,42 +1,133 @@
-import { useState, useCallback, useRef } from 'react'
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react'
+import { formatHex } from 'culori'
 import { RGBCubeVisualizer, type RGBCubeVisualizerHandle } from './RGBCubeVisualizer'
 import { UserCount } from './UserCount'
 import { UserColors } from './UserColors'
-import { ColorDisplay } from './ColorDisplay'
+import { ColorDisplay, type ColorReadout } from './ColorDisplay'
+import { RoomBadge } from './RoomBadge'
+import { PresenterControls } from './PresenterControls'
+import { ProfileEditor } from './ProfileEditor'
+import { ViewControls } from './ViewControls'
+import { PinsPanel } from './PinsPanel'
+import { PalettePanel } from './PalettePanel'
+import { ExportMenu } from './ExportMenu'
+import { PaletteImport, type ImportedPalette } from './PaletteImport'
+import { ImagePanel } from './ImagePanel'
+import { SliceControls } from './SliceControls'
 import { usePartyConnection } from '../hooks/usePartyConnection'
+import { getUserLabel } from '../utils/userLabel'
+import type { ImageAnalysis } from '../utils/imageAnalysis'
+import type { ColorSpaceId } from '../utils/colorSpaces'
+import type { RemoteCursorOptions } from '../utils/remoteCursorLayer'
+import type { NamedColor } from '../utils/paletteExport'
+import { DEFAULT_ROOM } from '../shared/rooms'
+import { MAX_SHARED_IMPORT_COLORS, type CameraState, type CursorState, type HeatmapState, type LockedSelection, type Pin, type PinPlacement, type SliceState, type Swatch, type UserProfile, type Vec3 } from '../shared/protocol'
 import './ColorPickerApp.css'
 
-export function ColorPickerApp() {
+// How often the heatmap is refreshed while it's shown
+const HEATMAP_REFRESH_MS = 5000
+
+// Committed colors remembered for export, oldest dropped first
+const MAX_COLOR_HISTORY = 64
+
+interface ColorPickerAppProps {
+  roomId?: string
+}
+
+export function ColorPickerApp({ roomId }: ColorPickerAppProps = {}) {
   const [userCount, setUserCount] = useState(0)
   const [userColors, setUserColors] = useState<Map<string, string>>(new Map())
-  const [colorDisplay, setColorDisplay] = useState({
-    text: '',
-    backgroundColor: 'transparent',
-    textColor: 'white'
-  })
+  const [userProfiles, setUserProfiles] = useState<Map<string, UserProfile>>(new Map())
+  const [colorReadout, setColorReadout] = useState<ColorReadout | null>(null)
+
+  const [presenters, setPresenters] = useState<Set<string>>(new Set())
+  const [followingSessionId, setFollowingSessionId] = useState<string | null>(null)
+  const [showHeatmap, setShowHeatmap] = useState(false)
+  const [cursorOptions, setCursorOptions] = useState<RemoteCursorOptions>({ trails: false, labels: true })
+  const [colorSpaceId, setColorSpaceId] = useState<ColorSpaceId>('rgb')
+  const [slice, setSlice] = useState<SliceState | null>(null)
+  const [pins, setPins] = useState<Pin[]>([])
+  const [pendingPinPlacement, setPendingPinPlacement] = useState<PinPlacement | null>(null)
+  const [swatches, setSwatches] = useState<Swatch[]>([])
+  const [importedPalette, setImportedPalette] = useState<ImportedPalette | null>(null)
+  const [imageAnalysis, setImageAnalysis] = useState<ImageAnalysis | null>(null)
+  // Colors anyone in the room committed while we were here, oldest first
+  const [colorHistory, setColorHistory] = useState<string[]>([])
 
   const visualizerRef = useRef<RGBCubeVisualizerHandle>(null)
+  // Mirrors followingSessionId for socket callbacks, which must stay stable
+  const followingSessionIdRef = useRef<string | null>(null)
+  // Last camera seen from each presenter, so following can start without waiting for a move
+  const presenterCamerasRef = useRef<Map<string, CameraState>>(new Map())
+  // Same for their slices; following adopts the presenter's cut (or lack of one)
+  const presenterSlicesRef = useRef<Map<string, SliceState>>(new Map())
+  // A reply can still arrive after the heatmap was hidden
+  const showHeatmapRef = useRef(false)
+  // Our locked color, sent again if we reconnect as a new session
+  const lockedSelectionRef = useRef<LockedSelection | null>(null)
+
+  const followSession = useCallback((sessionId: string | null) => {
+    followingSessionIdRef.current = sessionId
+    setFollowingSessionId(sessionId)
+
+    const camera = sessionId ? presenterCamerasRef.current.get(sessionId) : undefined
+    if (camera) {
+      visualizerRef.current?.syncCamera(camera)
+    }
+    if (sessionId) {
+      setSlice(presenterSlicesRef.current.get(sessionId) ?? null)
+    }
+  }, [])
 
   // PartyKit connection callbacks
-  const handleUserJoined = useCallback((sessionId: string, color: string) => {
+  const handleUserProfile = useCallback((sessionId: string, profile: UserProfile) => {
+    setUserProfiles(prev => {
+      const newMap = new Map(prev)
+      newMap.set(sessionId, profile)
+      return newMap
+    })
+  }, [])
+
+  const handleUserJoined = useCallback((sessionId: string, color: string, profile: UserProfile) => {
     // Add user to the user colors list immediately when they join
     setUserColors(prev => {
       const newMap = new Map(prev)
       newMap.set(sessionId, color)
       return newMap
     })
-  }, [])
+    handleUserProfile(sessionId, profile)
+  }, [handleUserProfile])
 
-  const handleCursorMove = useCallback((sessionId: string, position: any, normal: any, color: string) => {
-    visualizerRef.current?.showRemoteCursor(sessionId, position, normal, color)
+  const handleCursorMove = useCallback((cursor: CursorState) => {
+    visualizerRef.current?.showRemoteCursor(cursor)
   }, [])
 
   const handleCursorLeave = useCallback((sessionId: string) => {
     visualizerRef.current?.hideRemoteCursor(sessionId)
   }, [])
 
+  const handleRemoteSelectionLock = useCallback((sessionId: string, selection: LockedSelection | null) => {
+    visualizerRef.current?.showRemoteSelection(sessionId, selection)
+  }, [])
+
+  // Stop following a presenter who left (or came back under a new session)
+  const forgetPresenter = useCallback((sessionId: string) => {
+    presenterCamerasRef.current.delete(sessionId)
+    presenterSlicesRef.current.delete(sessionId)
+    setPresenters(prev => {
+      if (!prev.has(sessionId)) return prev
+      const newSet = new Set(prev)
+      newSet.delete(sessionId)
+      return newSet
+    })
+    if (followingSessionIdRef.current === sessionId) {
+      followSession(null)
+    }
+  }, [followSession])
+
   const handleUserDisconnect = useCallback((sessionId: string) => {
     visualizerRef.current?.removeUser(sessionId)
+    forgetPresenter(sessionId)
 
     // Remove user color
     setUserColors(prev => {
@@ -44,12 +135,91 @@ export function ColorPickerApp() {
       newMap.delete(sessionId)
       return newMap
     })
+    setUserProfiles(prev => {
+      const newMap = new Map(prev)
+      newMap.delete(sessionId)
+      return newMap
+    })
+  }, [forgetPresenter])
+
+  const handleUserResumed = useCallback((sessionId: string, previousSessionId: string | undefined, color: string, profile: UserProfile) => {
+    if (previousSessionId) {
+      visualizerRef.current?.removeUser(previousSessionId)
+      forgetPresenter(previousSessionId)
+    }
+    setUserProfiles(prev => {
+      const newMap = new Map(prev)
+      if (previousSessionId) newMap.delete(previousSessionId)
+      newMap.set(sessionId, profile)
+      return newMap
+    })
+
+    // Swap the session in place so the circle keeps its spot in the list
+    setUserColors(prev => {
+      const newMap = new Map<string, string>()
+      let replaced = false
+      prev.forEach((existingColor, existingId) => {
+        if (existingId === previousSessionId) {
+          newMap.set(sessionId, color)
+          replaced = true
+        } else if (existingId !== sessionId) {
+          newMap.set(existingId, existingColor)
+        }
+      })
+      if (!replaced) newMap.set(sessionId, color)
+      return newMap
+    })
+  }, [forgetPresenter])
+
+  const handleCameraSync = useCallback((sessionId: string, camera: CameraState) => {
+    presenterCamerasRef.current.set(sessionId, camera)
+
+    // Every presenter's camera reaches everyone; only the followed one moves our view
+    if (followingSessionIdRef.current === sessionId) {
+      visualizerRef.current?.syncCamera(camera)
+    }
   }, [])
 
-  const handleCameraSync = useCallback((camera: any) => {
-    visualizerRef.current?.syncCamera(camera)
+  const handleSliceSync = useCallback((sessionId: string, presenterSlice: SliceState | null) => {
+    if (presenterSlice) {
+      presenterSlicesRef.current.set(sessionId, presenterSlice)
+    } else {
+      presenterSlicesRef.current.delete(sessionId)
+    }
+
+    if (followingSessionIdRef.current === sessionId) {
+      setSlice(presenterSlice)
+    }
   }, [])
 
+  const handlePresenterChange = useCallback((sessionId: string, presenting: boolean, camera?: CameraState, presenterSlice?: SliceState) => {
+    if (presenting && camera) {
+      presenterCamerasRef.current.set(sessionId, camera)
+    } else if (!presenting) {
+      presenterCamerasRef.current.delete(sessionId)
+    }
+    if (presenting && presenterSlice) {
+      presenterSlicesRef.current.set(sessionId, presenterSlice)
+    } else if (!presenting) {
+      presenterSlicesRef.current.delete(sessionId)
+    }
+
+    setPresenters(prev => {
+      if (prev.has(sessionId) === presenting) return prev
+      const newSet = new Set(prev)
+      if (presenting) {
+        newSet.add(sessionId)
+      } else {
+        newSet.delete(sessionId)
+      }
+      return newSet
+    })
+
+    if (!presenting && followingSessionIdRef.current === sessionId) {
+      followSession(null)
+    }
+  }, [followSession])
+
   const handleUserCountUpdate = useCallback((count: number) => {
     setUserCount(count)
   }, [])
@@ -57,10 +227,45 @@ export function ColorPickerApp() {
   const handleUserColorChange = useCallback((sessionId: string, color: string) => {
     // Update user's color in the userColors map
     setUserColors(prev => {
+      if (prev.get(sessionId) === color) return prev
       const newMap = new Map(prev)
       newMap.set(sessionId, color)
       return newMap
     })
+
+    const hex = formatHex(color)
+    if (hex) {
+      setColorHistory(prev => [...prev.filter(existing => existing !== hex), hex].slice(-MAX_COLOR_HISTORY))
+    }
+  }, [])
+
+  const handleHeatmap = useCallback((heatmap: HeatmapState) => {
+    if (showHeatmapRef.current) {
+      visualizerRef.current?.setHeatmap(heatmap)
+    }
+  }, [])
+
+  const handlePinUpsert = useCallback((pin: Pin) => {
+    setPins(prev => {
+      const index = prev.findIndex(existing => existing.id === pin.id)
+      if (index === -1) return [...prev, pin]
+      const next = [...prev]
+      next[index] = pin
+      return next
+    })
+  }, [])
+
+  const handlePinDelete = useCallback((pinId: string) => {
+    setPins(prev => prev.filter(pin => pin.id !== pinId))
+  }, [])
+
+  const handleImportedColors = useCallback((colors: NamedColor[], sharedBy?: string) => {
+    // The latest share replaces whatever is plotted, but clearing the room's
+    // share leaves an import that was never shared alone
+    setImportedPalette(prev => {
+      if (colors.length > 0) return { colors, origin: 'room', sharedBy }
+      return prev?.origin === 'local' ? prev : null
+    })
   }, [])
 
   // Use PartyKit connection
@@ -70,15 +275,39 @@ export function ColorPickerApp() {
     sendColorPick,
     sendCursorLeave,
     sendCameraChange,
-    sendColorChange
+    sendColorChange,
+    sendProfile,
+    sendPresenting,
+    requestHeatmap,
+    sendPinCreate,
+    sendPinRename,
+    sendPinDelete,
+    sendPaletteAdd,
+    sendPaletteMove,
+    sendPaletteRemove,
+    sendImportedColors,
+    sendSlice,
+    sendSelectionLock
   } = usePartyConnection({
     onCursorMove: handleCursorMove,
     onCursorLeave: handleCursorLeave,
     onUserJoined: handleUserJoined,
     onUserDisconnect: handleUserDisconnect,
+    onUserResumed: handleUserResumed,
+    onUserProfile: handleUserProfile,
     onCameraSync: handleCameraSync,
+    onPresenterChange: handlePresenterChange,
+    onSliceSync: handleSliceSync,
+    onSelectionLock: handleRemoteSelectionLock,
     onUserCountUpdate: handleUserCountUpdate,
-    onUserColorChange: handleUserColorChange
+    onUserColorChange: handleUserColorChange,
+    onHeatmap: handleHeatmap,
+    onPinList: setPins,
+    onPinUpsert: handlePinUpsert,
+    onPinDelete: handlePinDelete,
+    onPalette: setSwatches,
+    onImportedColors: handleImportedColors,
+    room: roomId
   })
 
   // Visualizer callbacks
@@ -88,46 +317,293 @@ export function ColorPickerApp() {
     color: string
     rgb: { r: number; g: number; b: number }
   }) => {
+    // Live hover color travels with the cursor; the user's color only changes on commit
     sendColorPick(event)
-    // Send color change to update user's color
-    sendColorChange(event.color)
-  }, [sendColorPick, sendColorChange])
+  }, [sendColorPick])
+
+  const handleSelectionLock = useCallback((selection: LockedSelection | null) => {
+    lockedSelectionRef.current = selection
+    sendSelectionLock(selection)
+  }, [sendSelectionLock])
+
+  // The server forgets a session's lock when it closes
+  useEffect(() => {
+    if (userSessionId && lockedSelectionRef.current) {
+      sendSelectionLock(lockedSelectionRef.current)
+    }
+  }, [userSessionId, sendSelectionLock])
+
+  const handleColorCommit = useCallback((color: string) => {
+    sendColorChange(color)
+
+    // The server doesn't echo our own change back, so update our circle directly
+    if (userSessionId) {
+      handleUserColorChange(userSessionId, color)
+    }
+  }, [sendColorChange, userSessionId, handleUserColorChange])
+
+  // Keep the floating labels next to remote cursors in step with the roster
+  useEffect(() => {
+    userColors.forEach((_, sessionId) => {
+      visualizerRef.current?.setUserLabel(sessionId, getUserLabel(sessionId, userProfiles.get(sessionId)))
+    })
+  }, [userColors, userProfiles])
+
+  useEffect(() => {
+    visualizerRef.current?.setCursorOptions(cursorOptions)
+  }, [cursorOptions])
+
+  // Poll while the heatmap is visible; the server answers with a heatmap message
+  useEffect(() => {
+    showHeatmapRef.current = showHeatmap
+    if (!showHeatmap) {
+      visualizerRef.current?.setHeatmap(null)
+      return
+    }
+    if (!isConnected) return
+
+    requestHeatmap()
+    const interval = setInterval(requestHeatmap, HEATMAP_REFRESH_MS)
+    return () => clearInterval(interval)
+  }, [showHeatmap, isConnected, requestHeatmap])
 
-  const handleColorDisplay = useCallback((colorText: string, backgroundColor: string, textColor: string) => {
-    setColorDisplay({ text: colorText, backgroundColor, textColor })
+  useEffect(() => {
+    visualizerRef.current?.setPins(pins)
+  }, [pins])
+
+  const handlePinCurrentColor = useCallback(() => {
+    const placement = visualizerRef.current?.getLastPlacement()
+    if (placement) {
+      setPendingPinPlacement(placement)
+    }
   }, [])
 
+  const handlePinCreate = useCallback((label: string) => {
+    if (pendingPinPlacement) {
+      sendPinCreate(label, pendingPinPlacement)
+      setPendingPinPlacement(null)
+    }
+  }, [pendingPinPlacement, sendPinCreate])
+
+  const handlePinJump = useCallback((pinId: string) => {
+    // Jumping is our own camera move, so it ends any follow
+    followSession(null)
+    visualizerRef.current?.focusPin(pinId)
+  }, [followSession])
+
+  const handlePaletteAdd = useCallback(() => {
+    const placement = visualizerRef.current?.getLastPlacement()
+    if (placement) {
+      sendPaletteAdd(placement.color)
+    }
+  }, [sendPaletteAdd])
+
+  const handlePaletteMove = useCallback((id: string, afterId: string | null) => {
+    // Reorder right away; the server's palette message settles any concurrent edits
+    setSwatches(prev => {
+      const moving = prev.find(swatch => swatch.id === id)
+      if (!moving) return prev
+      const rest = prev.filter(swatch => swatch.id !== id)
+      rest.splice(afterId === null ? 0 : rest.findIndex(swatch => swatch.id === afterId) + 1, 0, moving)
+      return rest
+    })
+    sendPaletteMove(id, afterId)
+  }, [sendPaletteMove])
+
+  useEffect(() => {
+    visualizerRef.current?.setImportedColors(importedPalette?.colors ?? [])
+  }, [importedPalette])
+
+  const handlePaletteImport = useCallback((colors: NamedColor[], share: boolean) => {
+    if (share) {
+      const shared = colors.slice(0, MAX_SHARED_IMPORT_COLORS)
+      sendImportedColors(shared)
+      setImportedPalette({ colors: shared, origin: 'shared' })
+    } else {
+      setImportedPalette({ colors, origin: 'local' })
+    }
+  }, [sendImportedColors])
+
+  const handlePaletteImportClear = useCallback(() => {
+    // Clearing a shared import clears it for the whole room
+    if (importedPalette && importedPalette.origin !== 'local') {
+      sendImportedColors([])
+    }
+    setImportedPalette(null)
+  }, [importedPalette, sendImportedColors])
+
+  useEffect(() => {
+    visualizerRef.current?.setImageCloud(imageAnalysis)
+  }, [imageAnalysis])
+
+  useEffect(() => {
+    visualizerRef.current?.setColorSpace(colorSpaceId)
+  }, [colorSpaceId])
+
+  useEffect(() => {
+    visualizerRef.current?.setSlice(slice)
+  }, [slice])
+
+  const exportSources = useMemo(() => ({
+    palette: swatches.map((swatch): NamedColor => ({ name: swatch.color, hex: swatch.color })),
+    pins: pins.map((pin): NamedColor => ({ name: pin.label, hex: pin.color })),
+    history: colorHistory.map((hex): NamedColor => ({ name: hex, hex })),
+    image: (imageAnalysis?.dominant ?? []).map(({ hex }): NamedColor => ({ name: hex, hex }))
+  }), [swatches, pins, colorHistory, imageAnalysis])
+
+  const isPresenting = userSessionId !== null && presenters.has(userSessionId)
+
   const handleCameraChange = useCallback((event: {
     position: { x: number; y: number; z: number }
     target: { x: number; y: number; z: number }
   }) => {
-    sendCameraChange(event)
-  }, [sendCameraChange])
+    // Camera sync is opt-in: only presenters share their view
+    if (isPresenting) {
+      sendCameraChange(event)
+    }
+  }, [sendCameraChange, isPresenting])
+
+  const handleTogglePresenting = useCallback(() => {
+    sendPresenting(!isPresenting)
+
+    if (!isPresenting) {
+      // Presenters lead, so stop following and share where we are right away
+      followSession(null)
+      const camera = visualizerRef.current?.getCamera()
+      if (camera) {
+        sendCameraChange(camera)
+      }
+      if (slice) {
+        sendSlice(slice)
+      }
+    }
+  }, [isPresenting, sendPresenting, sendCameraChange, sendSlice, slice, followSession])
+
+  const handleSliceChange = useCallback((nextSlice: SliceState | null) => {
+    setSlice(nextSlice)
+
+    // Cutting our own way breaks follow, like orbiting does
+    if (followingSessionIdRef.current) {
+      followSession(null)
+    }
+    if (isPresenting) {
+      sendSlice(nextSlice)
+    }
+  }, [isPresenting, sendSlice, followSession])
+
+  const handleAlignSliceToView = useCallback(() => {
+    const camera = visualizerRef.current?.getCamera()
+    if (!camera) return
+
+    const { position, target } = camera
+    const length = Math.hypot(position.x - target.x, position.y - target.y, position.z - target.z)
+    if (length === 0) return
+    handleSliceChange({
+      normal: {
+        x: (position.x - target.x) / length,
+        y: (position.y - target.y) / length,
+        z: (position.z - target.z) / length
+      },
+      offset: slice?.offset ?? 0
+    })
+  }, [handleSliceChange, slice])
+
+  const handleFollowToggle = useCallback((sessionId: string) => {
+    if (followingSessionIdRef.current === sessionId) {
+      followSession(null)
+    } else if (presenters.has(sessionId) && sessionId !== userSessionId) {
+      followSession(sessionId)
+    }
+  }, [presenters, userSessionId, followSession])
+
+  const handleCameraInteractionStart = useCallback(() => {
+    // Orbiting ourselves breaks follow
+    if (followingSessionIdRef.current) {
+      followSession(null)
+    }
+  }, [followSession])
 
   return (
     <div className="color-picker-app">
       <UserCount count={userCount} isConnecting={!isConnected} />
-      <UserColors userColors={userColors} currentUserSessionId={userSessionId} />
-
-      {colorDisplay.text && (
-        <ColorDisplay
-          colorText={colorDisplay.text}
-          backgroundColor={colorDisplay.backgroundColor}
-          textColor={colorDisplay.textColor}
+      <div className="side-panels">
+        <UserColors
+          userColors={userColors}
+          userProfiles={userProfiles}
+          currentUserSessionId={userSessionId}
+          presenters={presenters}
+          followingSessionId={followingSessionId}
+          onUserClick={handleFollowToggle}
+        />
+        <PalettePanel
+          swatches={swatches}
+          onAdd={handlePaletteAdd}
+          onMove={handlePaletteMove}
+          onRemove={sendPaletteRemove}
+        />
+        <ExportMenu sources={exportSources} title={roomId ?? DEFAULT_ROOM} />
+        <PaletteImport
+          palette={importedPalette}
+          onImport={handlePaletteImport}
+          onClear={handlePaletteImportClear}
+        />
+        <ImagePanel analysis={imageAnalysis} onAnalysis={setImageAnalysis} />
+      </div>
+      <RoomBadge roomId={roomId} />
+      <PresenterControls
+        isPresenting={isPresenting}
+        followingLabel={followingSessionId ? getUserLabel(followingSessionId, userProfiles.get(followingSessionId)) : null}
+        onTogglePresenting={handleTogglePresenting}
+        onStopFollowing={() => followSession(null)}
+      />
+      <SliceControls
+        slice={slice}
+        colorSpaceId={colorSpaceId}
+        onChange={handleSliceChange}
+        onAlignToView={handleAlignSliceToView}
+      />
+      <ViewControls
+        showHeatmap={showHeatmap}
+        onToggleHeatmap={() => setShowHeatmap(show => !show)}
+        colorSpaceId={colorSpaceId}
+        onColorSpaceChange={setColorSpaceId}
+        cursorOptions={cursorOptions}
+        onCursorOptionsChange={setCursorOptions}
+      />
+      <PinsPanel
+        pins={pins}
+        pendingPlacement={pendingPinPlacement}
+        onPinCurrentColor={handlePinCurrentColor}
+        onCreate={handlePinCreate}
+        onCancelPending={() => setPendingPinPlacement(null)}
+        onRename={sendPinRename}
+        onDelete={sendPinDelete}
+        onJump={handlePinJump}
+      />
+      {userSessionId && (
+        <ProfileEditor
+          profile={userProfiles.get(userSessionId) ?? {}}
+          onSave={sendProfile}
         />
       )}
 
+      {colorReadout && <ColorDisplay readout={colorReadout} />}
+
       <RGBCubeVisualizer
         ref={visualizerRef}
         onColorPick={handleColorPick}
         onCursorLeave={sendCursorLeave}
+        onColorCommit={handleColorCommit}
         onCameraChange={handleCameraChange}
+        onCameraInteractionStart={handleCameraInteractionStart}
+        onPinDrop={setPendingPinPlacement}
+        onSelectionLock={handleSelectionLock}
         currentUserSessionId={userSessionId}
-        onColorDisplay={handleColorDisplay}
+        onColorDisplay={setColorReadout}
       />
 
       {/* Loading indicator */}
-      <div className={`loading-indicator ${colorDisplay.text ? 'hidden' : ''}`}>
+      <div className={`loading-indicator ${colorReadout ? 'hidden' : ''}`}>
 
       </div>
 
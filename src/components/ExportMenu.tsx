@@ -0,0 +1,101 @@
+import { useState, useCallback } from 'react'
+import { EXPORT_FORMATS, type ExportFormatId, type NamedColor } from '../utils/paletteExport'
+import './ExportMenu.css'
+
+export type ExportSourceId = 'palette' | 'pins' | 'history' | 'image'
+
+interface ExportMenuProps {
+  sources: Record<ExportSourceId, NamedColor[]>
+  // Used for palette titles and file names
+  title: string
+}
+
+const SOURCE_LABELS: Record<ExportSourceId, string> = {
+  palette: 'Shared palette',
+  pins: 'Pins',
+  history: 'Color history',
+  image: 'Image colors'
+}
+
+function toFileName(title: string): string {
+  return title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'palette'
+}
+
+export function ExportMenu({ sources, title }: ExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [sourceId, setSourceId] = useState<ExportSourceId>('palette')
+  const [formatId, setFormatId] = useState<ExportFormatId>('css')
+  const [copied, setCopied] = useState(false)
+
+  const format = EXPORT_FORMATS.find(candidate => candidate.id === formatId)!
+  const colors = sources[sourceId]
+  const exportTitle = `${title} · ${SOURCE_LABELS[sourceId]}`
+
+  const handleDownload = useCallback(() => {
+    const contents = format.format(colors, exportTitle)
+    const url = URL.createObjectURL(new Blob([contents], { type: format.mimeType }))
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `${toFileName(exportTitle)}.${format.extension}`
+    link.click()
+    URL.revokeObjectURL(url)
+  }, [format, colors, exportTitle])
+
+  const handleCopy = useCallback(async () => {
+    const contents = format.format(colors, exportTitle)
+    if (typeof contents !== 'string') return
+    try {
+      await navigator.clipboard.writeText(contents)
+      setCopied(true)
+      setTimeout(() => setCopied(false), 1500)
+    } catch (error) {
+      console.error('Failed to copy export:', error)
+    }
+  }, [format, colors, exportTitle])
+
+  if (!isOpen) {
+    return (
+      <button className="export-menu-button" onClick={() => setIsOpen(true)}>
+        Export colors
+      </button>
+    )
+  }
+
+  return (
+    <div className="export-menu">
+      <select
+        value={sourceId}
+        onChange={event => setSourceId(event.target.value as ExportSourceId)}
+        aria-label="Colors to export"
+      >
+        {(Object.keys(SOURCE_LABELS) as ExportSourceId[]).map(id => (
+          <option key={id} value={id}>
+            {SOURCE_LABELS[id]} ({sources[id].length})
+          </option>
+        ))}
+      </select>
+      <select
+        value={formatId}
+        onChange={event => setFormatId(event.target.value as ExportFormatId)}
+        aria-label="Export format"
+      >
+        {EXPORT_FORMATS.map(candidate => (
+          <option key={candidate.id} value={candidate.id}>
+            {candidate.label}
+          </option>
+        ))}
+      </select>
+      <div className="export-menu-actions">
+        <button className="export-menu-button" onClick={handleDownload} disabled={colors.length === 0}>
+          Download
+        </button>
+        <button className="export-menu-button" onClick={handleCopy} disabled={colors.length === 0 || format.binary}>
+          {copied ? 'Copied!' : 'Copy'}
+        </button>
+        <button className="export-menu-button" onClick={() => setIsOpen(false)}>
+          Close
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,130 @@
+import { useState, useCallback, useEffect, useRef, type ChangeEvent } from 'react'
+import { analyzeImage, type ImageAnalysis } from '../utils/imageAnalysis'
+import './ImagePanel.css'
+
+interface ImagePanelProps {
+  analysis: ImageAnalysis | null
+  onAnalysis: (analysis: ImageAnalysis | null) => void
+}
+
+function isFileDrag(event: DragEvent): boolean {
+  return [...(event.dataTransfer?.items ?? [])].some(item => item.kind === 'file')
+}
+
+function isImageDrag(event: DragEvent): boolean {
+  return [...(event.dataTransfer?.items ?? [])].some(item => item.kind === 'file' && item.type.startsWith('image/'))
+}
+
+export function ImagePanel({ analysis, onAnalysis }: ImagePanelProps) {
+  const [isAnalyzing, setIsAnalyzing] = useState(false)
+  const [isDragging, setIsDragging] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  // Only the latest image wins if several are dropped in quick succession
+  const requestRef = useRef(0)
+
+  const analyze = useCallback(async (file: File) => {
+    const request = ++requestRef.current
+    setIsAnalyzing(true)
+    setError(null)
+    try {
+      const result = await analyzeImage(file)
+      if (request === requestRef.current) onAnalysis(result)
+    } catch (analysisError) {
+      console.error('Failed to analyse image:', analysisError)
+      if (request === requestRef.current) setError(`Couldn't read ${file.name}`)
+    } finally {
+      if (request === requestRef.current) setIsAnalyzing(false)
+    }
+  }, [onAnalysis])
+
+  const handleFile = useCallback((event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (file) analyze(file)
+  }, [analyze])
+
+  const handleClear = useCallback(() => {
+    requestRef.current++
+    setIsAnalyzing(false)
+    setError(null)
+    onAnalysis(null)
+  }, [onAnalysis])
+
+  // Images can be dropped anywhere on the page. Any other file is refused rather
+  // than left to the browser, which would open it in place of the room.
+  useEffect(() => {
+    const handleDragOver = (event: DragEvent) => {
+      if (!isFileDrag(event)) return
+      event.preventDefault()
+      if (isImageDrag(event)) {
+        setIsDragging(true)
+      } else if (event.dataTransfer) {
+        event.dataTransfer.dropEffect = 'none'
+      }
+    }
+    const handleDragLeave = (event: DragEvent) => {
+      // Only leaving the window counts, not moving between elements
+      if (event.relatedTarget === null) setIsDragging(false)
+    }
+    const handleDrop = (event: DragEvent) => {
+      setIsDragging(false)
+      const files = [...(event.dataTransfer?.files ?? [])]
+      if (files.length === 0) return
+      event.preventDefault()
+      const file = files.find(candidate => candidate.type.startsWith('image/'))
+      if (file) analyze(file)
+    }
+
+    window.addEventListener('dragover', handleDragOver)
+    window.addEventListener('dragleave', handleDragLeave)
+    window.addEventListener('drop', handleDrop)
+    return () => {
+      window.removeEventListener('dragover', handleDragOver)
+      window.removeEventListener('dragleave', handleDragLeave)
+      window.removeEventListener('drop', handleDrop)
+    }
+  }, [analyze])
+
+  return (
+    <div className={`image-panel${isDragging ? ' dragging' : ''}`}>
+      <div className="image-panel-actions">
+        <button className="image-panel-button" onClick={() => fileInputRef.current?.click()} disabled={isAnalyzing}>
+          {isAnalyzing ? 'Analysing…' : 'Plot an image'}
+        </button>
+        {analysis && (
+          <button className="image-panel-button" onClick={handleClear}>
+            Clear
+          </button>
+        )}
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/*"
+          onChange={handleFile}
+          hidden
+        />
+      </div>
+      {isDragging && <div className="image-panel-hint">Drop to plot its colors</div>}
+      {error && <div className="image-panel-error">{error}</div>}
+      {analysis && (
+        <>
+          <div className="image-panel-summary">
+            {analysis.width}×{analysis.height} · {analysis.samples.length / 3} pixels sampled
+            {analysis.hull.length === 0 && ' · flat gamut'}
+          </div>
+          <div className="image-panel-dominant">
+            {analysis.dominant.map(({ hex, share }) => (
+              <div
+                key={hex}
+                className="image-panel-swatch"
+                style={{ backgroundColor: hex }}
+                title={`${hex} · ${Math.round(share * 100)}%`}
+              />
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
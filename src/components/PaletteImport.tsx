@@ -0,0 +1,107 @@
+import { useState, useCallback, type ChangeEvent } from 'react'
+import { parsePalette } from '../utils/paletteImport'
+import { MAX_SHARED_IMPORT_COLORS, type NamedColor } from '../shared/protocol'
+import './PaletteImport.css'
+
+export interface ImportedPalette {
+  colors: NamedColor[]
+  // 'local' stays on this screen, 'shared' we sent to the room, 'room' someone else shared
+  origin: 'local' | 'shared' | 'room'
+  sharedBy?: string
+}
+
+interface PaletteImportProps {
+  palette: ImportedPalette | null
+  onImport: (colors: NamedColor[], share: boolean) => void
+  onClear: () => void
+}
+
+export function PaletteImport({ palette, onImport, onClear }: PaletteImportProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [text, setText] = useState('')
+  const [share, setShare] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleFile = useCallback(async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+    try {
+      setText(await file.text())
+      setError(null)
+    } catch (readError) {
+      console.error('Failed to read palette file:', readError)
+      setError(`Couldn't read ${file.name}`)
+    }
+  }, [])
+
+  const handleImport = useCallback(() => {
+    const colors = parsePalette(text)
+    if (colors.length === 0) {
+      setError('No colors found')
+      return
+    }
+    onImport(colors, share)
+    setIsOpen(false)
+    setText('')
+    setError(null)
+  }, [text, share, onImport])
+
+  const handleCancel = useCallback(() => {
+    setIsOpen(false)
+    setError(null)
+  }, [])
+
+  if (!isOpen) {
+    return (
+      <div className="palette-import-summary">
+        <button className="palette-import-button" onClick={() => setIsOpen(true)}>
+          Import colors
+        </button>
+        {palette && (
+          <>
+            <span className="palette-import-status">
+              {palette.colors.length} plotted
+              {palette.origin === 'shared' && ' · shared'}
+              {palette.origin === 'room' && palette.sharedBy && ` · from ${palette.sharedBy}`}
+            </span>
+            <button className="palette-import-button" onClick={onClear}>
+              Clear
+            </button>
+          </>
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <div className="palette-import">
+      <textarea
+        value={text}
+        onChange={event => setText(event.target.value)}
+        placeholder="Paste hex codes, CSS variables, a .gpl palette or JSON tokens"
+        rows={6}
+        aria-label="Palette to import"
+      />
+      <input
+        type="file"
+        accept=".gpl,.json,.css,.txt,text/plain,application/json,text/css"
+        onChange={handleFile}
+        aria-label="Palette file"
+      />
+      <label className="palette-import-share">
+        <input type="checkbox" checked={share} onChange={event => setShare(event.target.checked)} />
+        Share with room (first {MAX_SHARED_IMPORT_COLORS} colors)
+      </label>
+      {error && <div className="palette-import-error">{error}</div>}
+      <div className="palette-import-actions">
+        <button className="palette-import-button" onClick={handleImport} disabled={!text.trim()}>
+          Plot colors
+        </button>
+        <button className="palette-import-button" onClick={handleCancel}>
+          Cancel
+        </button>
+      </div>
+    </div>
+  )
+}
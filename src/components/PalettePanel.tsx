@@ -0,0 +1,91 @@
+import { useState, type DragEvent } from 'react'
+import type { Swatch } from '../shared/protocol'
+import './PalettePanel.css'
+
+interface PalettePanelProps {
+  swatches: Swatch[]
+  onAdd: () => void
+  // Place a swatch after another one, or at the front with null
+  onMove: (id: string, afterId: string | null) => void
+  onRemove: (id: string) => void
+}
+
+export function PalettePanel({
+  swatches,
+  onAdd,
+  onMove,
+  onRemove
+}: PalettePanelProps) {
+  const [draggingId, setDraggingId] = useState<string | null>(null)
+  // Index the dragged swatch would be dropped before
+  const [dropIndex, setDropIndex] = useState<number | null>(null)
+
+  const handleDragOver = (event: DragEvent<HTMLElement>, index: number) => {
+    if (!draggingId) return
+    event.preventDefault()
+
+    // Dropping on the right half of a swatch means after it
+    const rect = event.currentTarget.getBoundingClientRect()
+    setDropIndex(event.clientX > rect.left + rect.width / 2 ? index + 1 : index)
+  }
+
+  const handleDrop = (event: DragEvent) => {
+    event.preventDefault()
+    if (draggingId && dropIndex !== null) {
+      const before = swatches.slice(0, dropIndex).filter(swatch => swatch.id !== draggingId)
+      const afterId = before.length > 0 ? before[before.length - 1].id : null
+      const index = swatches.findIndex(swatch => swatch.id === draggingId)
+      const currentAfterId = index > 0 ? swatches[index - 1].id : null
+      if (afterId !== currentAfterId) {
+        onMove(draggingId, afterId)
+      }
+    }
+    setDraggingId(null)
+    setDropIndex(null)
+  }
+
+  return (
+    <div className="palette-panel">
+      <div className="palette-panel-swatches" onDragOver={event => draggingId && event.preventDefault()} onDrop={handleDrop}>
+        {swatches.map((swatch, index) => (
+          <div
+            key={swatch.id}
+            className={[
+              'palette-swatch',
+              swatch.id === draggingId ? 'dragging' : '',
+              dropIndex === index ? 'drop-before' : '',
+              dropIndex === index + 1 && index === swatches.length - 1 ? 'drop-after' : ''
+            ].filter(Boolean).join(' ')}
+            style={{ backgroundColor: swatch.color }}
+            title={swatch.addedBy ? `${swatch.color} · added by ${swatch.addedBy}` : swatch.color}
+            draggable
+            onDragStart={event => {
+              event.dataTransfer.effectAllowed = 'move'
+              setDraggingId(swatch.id)
+            }}
+            onDragOver={event => handleDragOver(event, index)}
+            onDragEnd={() => {
+              setDraggingId(null)
+              setDropIndex(null)
+            }}
+          >
+            <button
+              className="palette-swatch-remove"
+              onClick={() => onRemove(swatch.id)}
+              aria-label={`Remove ${swatch.color}`}
+            >
+              ×
+            </button>
+          </div>
+        ))}
+        <button
+          className="palette-panel-add"
+          onClick={onAdd}
+          title="Add the color you last hovered to the room's palette"
+        >
+          +
+        </button>
+      </div>
+    </div>
+  )
+}
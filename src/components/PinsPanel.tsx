@@ -0,0 +1,122 @@
+import { useState, type FormEvent } from 'react'
+import { MAX_PIN_LABEL_LENGTH, type Pin, type PinPlacement } from '../shared/protocol'
+import './PinsPanel.css'
+
+interface PinsPanelProps {
+  pins: Pin[]
+  // A spot picked on the cube that still needs a label
+  pendingPlacement: PinPlacement | null
+  onPinCurrentColor: () => void
+  onCreate: (label: string) => void
+  onCancelPending: () => void
+  onRename: (pinId: string, label: string) => void
+  onDelete: (pinId: string) => void
+  onJump: (pinId: string) => void
+}
+
+export function PinsPanel({
+  pins,
+  pendingPlacement,
+  onPinCurrentColor,
+  onCreate,
+  onCancelPending,
+  onRename,
+  onDelete,
+  onJump
+}: PinsPanelProps) {
+  const [editingPinId, setEditingPinId] = useState<string | null>(null)
+
+  return (
+    <div className="pins-panel">
+      <div className="pins-panel-header">
+        <span>Pins ({pins.length})</span>
+        <button
+          className="pins-panel-button"
+          onClick={onPinCurrentColor}
+          title="Pin the last color you hovered (or press P / Shift+click over the cube)"
+        >
+          Pin current color
+        </button>
+      </div>
+
+      {pendingPlacement && (
+        <PinLabelForm
+          color={pendingPlacement.color}
+          submitLabel="Add pin"
+          onSubmit={onCreate}
+          onCancel={onCancelPending}
+        />
+      )}
+
+      <ul className="pins-panel-list">
+        {pins.map(pin => (
+          <li key={pin.id} className="pins-panel-item">
+            {editingPinId === pin.id ? (
+              <PinLabelForm
+                color={pin.color}
+                initialLabel={pin.label}
+                submitLabel="Save"
+                onSubmit={label => {
+                  onRename(pin.id, label)
+                  setEditingPinId(null)
+                }}
+                onCancel={() => setEditingPinId(null)}
+              />
+            ) : (
+              <>
+                <button className="pins-panel-jump" onClick={() => onJump(pin.id)} title="Jump to this pin">
+                  <span className="pins-panel-swatch" style={{ backgroundColor: pin.color }} />
+                  <span className="pins-panel-label">{pin.label}</span>
+                  {pin.authorName && <span className="pins-panel-author">{pin.authorName}</span>}
+                </button>
+                {pin.mine && (
+                  <>
+                    <button className="pins-panel-button" onClick={() => setEditingPinId(pin.id)}>Rename</button>
+                    <button className="pins-panel-button" onClick={() => onDelete(pin.id)}>Delete</button>
+                  </>
+                )}
+              </>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
+
+interface PinLabelFormProps {
+  color: string
+  initialLabel?: string
+  submitLabel: string
+  onSubmit: (label: string) => void
+  onCancel: () => void
+}
+
+function PinLabelForm({ color, initialLabel = '', submitLabel, onSubmit, onCancel }: PinLabelFormProps) {
+  const [label, setLabel] = useState(initialLabel)
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault()
+    const trimmed = label.trim()
+    if (trimmed) {
+      onSubmit(trimmed)
+    }
+  }
+
+  return (
+    <form className="pins-panel-form" onSubmit={handleSubmit}>
+      <span className="pins-panel-swatch" style={{ backgroundColor: color }} />
+      <input
+        value={label}
+        onChange={event => setLabel(event.target.value)}
+        onKeyDown={event => event.key === 'Escape' && onCancel()}
+        placeholder="Label, e.g. brand primary"
+        aria-label="Pin label"
+        maxLength={MAX_PIN_LABEL_LENGTH}
+        autoFocus
+      />
+      <button type="submit" className="pins-panel-button" disabled={!label.trim()}>{submitLabel}</button>
+      <button type="button" className="pins-panel-button" onClick={onCancel}>Cancel</button>
+    </form>
+  )
+}
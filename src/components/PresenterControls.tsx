@@ -0,0 +1,32 @@
+import './PresenterControls.css'
+
+interface PresenterControlsProps {
+  isPresenting: boolean
+  // Who we're following, if anyone
+  followingLabel: string | null
+  onTogglePresenting: () => void
+  onStopFollowing: () => void
+}
+
+export function PresenterControls({
+  isPresenting,
+  followingLabel,
+  onTogglePresenting,
+  onStopFollowing
+}: PresenterControlsProps) {
+  return (
+    <div className="presenter-controls">
+      {followingLabel && (
+        <button className="presenter-controls-button" onClick={onStopFollowing}>
+          Following {followingLabel} · Stop
+        </button>
+      )}
+      <button
+        className={`presenter-controls-button ${isPresenting ? 'active' : ''}`}
+        onClick={onTogglePresenting}
+      >
+        {isPresenting ? 'Stop presenting' : 'Present my view'}
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,59 @@
+import { useState, type FormEvent } from 'react'
+import { MAX_DISPLAY_NAME_LENGTH, type UserProfile } from '../shared/protocol'
+import './ProfileEditor.css'
+
+interface ProfileEditorProps {
+  profile: UserProfile
+  onSave: (profile: UserProfile) => void
+}
+
+export function ProfileEditor({ profile, onSave }: ProfileEditorProps) {
+  const [isEditing, setIsEditing] = useState(false)
+  const [displayName, setDisplayName] = useState('')
+  const [avatar, setAvatar] = useState('')
+
+  const startEditing = () => {
+    setDisplayName(profile.displayName ?? '')
+    setAvatar(profile.avatar ?? '')
+    setIsEditing(true)
+  }
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault()
+    // The server validates and trims; blank fields clear the name or avatar
+    onSave({ displayName: displayName.trim() || undefined, avatar: avatar.trim() || undefined })
+    setIsEditing(false)
+  }
+
+  if (!isEditing) {
+    return (
+      <button className="profile-editor profile-editor-button" onClick={startEditing}>
+        {[profile.avatar, profile.displayName].filter(Boolean).join(' ') || 'Set your name'}
+      </button>
+    )
+  }
+
+  return (
+    <form className="profile-editor profile-editor-form" onSubmit={handleSubmit}>
+      <input
+        className="profile-editor-avatar"
+        value={avatar}
+        onChange={event => setAvatar(event.target.value)}
+        placeholder="🙂"
+        aria-label="Avatar emoji"
+        maxLength={16}
+      />
+      <input
+        className="profile-editor-name"
+        value={displayName}
+        onChange={event => setDisplayName(event.target.value)}
+        placeholder="Display name"
+        aria-label="Display name"
+        maxLength={MAX_DISPLAY_NAME_LENGTH}
+        autoFocus
+      />
+      <button type="submit" className="profile-editor-button">Save</button>
+      <button type="button" className="profile-editor-button" onClick={() => setIsEditing(false)}>Cancel</button>
+    </form>
+  )
+}
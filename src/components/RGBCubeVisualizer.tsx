@@ -1,6 +1,17 @@
 import { useEffect, useRef, useCallback, forwardRef, useImperativeHandle } from 'react'
 import * as THREE from 'three'
 import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js'
+import { FACE_NORMALS, hexToRGB, rgbToHex, type CameraState, type CursorState, type HeatmapState, type LockedSelection, type NamedColor, type Pin, type PinPlacement, type RGB, type SliceState, type Vec3 } from '../shared/protocol'
+import { createColorCommitter, type ColorCommitter } from '../utils/colorCommit'
+import { attachPointerGestures } from '../utils/pointerGestures'
+import { createHeatmapLayer, type HeatmapLayer } from '../utils/heatmapLayer'
+import { createRemoteCursorLayer, type RemoteCursorLayer, type RemoteCursorOptions } from '../utils/remoteCursorLayer'
+import type { ImageAnalysis } from '../utils/imageColors'
+import { getColorSpace, resolvePlacement, type ColorSpace, type ColorSpaceId } from '../utils/colorSpaces'
+import { createSolidMaterial } from '../utils/solidMaterial'
+import { createSliceCap, createSliceCapMaterial, createSliceStencils, placeSlice } from '../utils/sliceCap'
+import { CURSOR_LABEL_HEIGHT, createLabelSprite, disposeLabelSprite } from '../utils/labelSprite'
+import type { ColorReadout } from './ColorDisplay'
 import './RGBCubeVisualizer.css'
 
 interface RGBCubeVisualizerProps {
@@ -11,39 +22,242 @@ interface RGBCubeVisualizerProps {
     rgb: { r: number; g: number; b: number }
   }) => void
   onCursorLeave?: () => void
+  // Fired when the hovered color should become the user's color (click, Enter or dwell)
+  onColorCommit?: (color: string) => void
   onCameraChange?: (event: {
     position: { x: number; y: number; z: number }
     target: { x: number; y: number; z: number }
   }) => void
+  // User grabbed the orbit controls (used to break camera follow)
+  onCameraInteractionStart?: () => void
+  // Shift+click or P over the cube asks to drop a pin there
+  onPinDrop?: (placement: PinPlacement) => void
+  // Click or long press locks the picked color in place (arrow keys nudge it); Escape releases it with null
+  onSelectionLock?: (selection: LockedSelection | null) => void
   currentUserSessionId?: string | null
-  onColorDisplay?: (colorText: string, backgroundColor: string, textColor: string) => void
+  onColorDisplay?: (readout: ColorReadout) => void
+}
+
+// How quickly a followed camera catches up with the presenter (higher is snappier)
+const CAMERA_FOLLOW_SPEED = 8
+
+// Longest step (s) the render loop advances by in one frame, so easing resumes
+// smoothly after the loop has been resting
+const MAX_FRAME_DELTA = 1 / 30
+
+// How long (ms) the cursor indicator pulses after a pick before settling
+const PICK_PULSE_MS = 1500
+
+// Imported colors are plotted densely, so their spheres and name tags are smaller
+const IMPORTED_COLOR_RADIUS = 0.015
+const IMPORTED_LABEL_HEIGHT = 0.022
+
+// Dominant image colors stand out from the point cloud around them
+const DOMINANT_COLOR_RADIUS = 0.03
+
+// Keys that nudge a locked color: arrows step red (left/right) and green
+// (up/down), Page Up/Down step blue. Shift steps by a whole hex digit.
+const LOCK_NUDGE_KEYS: Record<string, [keyof RGB, number]> = {
+  ArrowRight: ['r', 1],
+  ArrowLeft: ['r', -1],
+  ArrowUp: ['g', 1],
+  ArrowDown: ['g', -1],
+  PageUp: ['b', 1],
+  PageDown: ['b', -1]
+}
+const LOCK_NUDGE_LARGE_STEP = 16
+
+// Solid face opacity while colors are plotted inside it
+const SEE_THROUGH_OPACITY = 0.3
+
+// Pushpin: a short stem standing out of the face with a ball in the pin's color
+function createPinMarker(pin: Pin, space: ColorSpace): THREE.Group {
+  const marker = new THREE.Group()
+  marker.name = pin.id
+
+  const stem = new THREE.Mesh(
+    new THREE.CylinderGeometry(0.003, 0.003, 0.05, 8),
+    new THREE.MeshBasicMaterial({ color: 0x333333 })
+  )
+  stem.position.y = 0.025
+  marker.add(stem)
+
+  const head = new THREE.Mesh(
+    new THREE.SphereGeometry(0.015, 16, 12),
+    new THREE.MeshBasicMaterial({ color: pin.color })
+  )
+  head.position.y = 0.05
+  marker.add(head)
+
+  const outline = new THREE.Mesh(
+    new THREE.SphereGeometry(0.018, 16, 12),
+    new THREE.MeshBasicMaterial({ color: 0x000000, side: THREE.BackSide })
+  )
+  head.add(outline)
+
+  // Stand the marker along the face normal
+  const { position, normal } = resolvePlacement(space, pin.position, pin.normal, pin.rgb)
+  marker.position.copy(position)
+  marker.quaternion.setFromUnitVectors(new THREE.Vector3(0, 1, 0), normal)
+  return marker
+}
+
+// A sphere at the color's own position inside the solid, tagged with its name
+function createImportedColorMarker(color: NamedColor, geometry: THREE.BufferGeometry, space: ColorSpace): THREE.Mesh {
+  const marker = new THREE.Mesh(geometry, new THREE.MeshBasicMaterial({ color: color.hex }))
+  marker.position.copy(space.colorToPosition(hexToRGB(color.hex)))
+  marker.userData = color
+
+  const label = createLabelSprite(color.name, IMPORTED_LABEL_HEIGHT)
+  label.position.set(IMPORTED_COLOR_RADIUS, IMPORTED_COLOR_RADIUS, 0)
+  marker.add(label)
+  return marker
+}
+
+// Pixel point cloud, translucent gamut hull and dominant color markers for an analysed image
+function createImageCloud(analysis: ImageAnalysis, space: ColorSpace): THREE.Group {
+  const cloud = new THREE.Group()
+  const { samples, dominant } = analysis
+
+  const positions = new Float32Array(samples.length)
+  const colors = new Float32Array(samples.length)
+  const color = new THREE.Color()
+  for (let i = 0; i < samples.length; i += 3) {
+    space.colorToPosition({ r: samples[i], g: samples[i + 1], b: samples[i + 2] }).toArray(positions, i)
+    // Vertex colors are linear, so decode the same way the solid's shader does
+    color.setRGB(samples[i] / 255, samples[i + 1] / 255, samples[i + 2] / 255, THREE.SRGBColorSpace).toArray(colors, i)
+  }
+  const pointsGeometry = new THREE.BufferGeometry()
+  pointsGeometry.setAttribute('position', new THREE.BufferAttribute(positions, 3))
+  pointsGeometry.setAttribute('color', new THREE.BufferAttribute(colors, 3))
+  cloud.add(new THREE.Points(pointsGeometry, new THREE.PointsMaterial({ size: 0.008, vertexColors: true })))
+
+  // The worker builds the hull in RGB cube coordinates; other solids bend it with the points
+  const rgbCube = getColorSpace('rgb')
+  let hull = analysis.hull
+  if (space !== rgbCube) {
+    hull = new Float32Array(analysis.hull.length)
+    for (let i = 0; i < hull.length; i += 3) {
+      const rgb = rgbCube.positionToColor({ x: analysis.hull[i], y: analysis.hull[i + 1], z: analysis.hull[i + 2] })
+      space.colorToPosition(rgb).toArray(hull, i)
+    }
+  }
+  if (hull.length > 0) {
+    const hullGeometry = new THREE.BufferGeometry()
+    hullGeometry.setAttribute('position', new THREE.BufferAttribute(hull, 3))
+    const hullMesh = new THREE.Mesh(hullGeometry, new THREE.MeshBasicMaterial({
+      color: 0xffffff,
+      transparent: true,
+      opacity: 0.08,
+      side: THREE.DoubleSide,
+      depthWrite: false
+    }))
+    hullMesh.add(new THREE.LineSegments(
+      new THREE.EdgesGeometry(hullGeometry),
+      new THREE.LineBasicMaterial({ color: 0xffffff, transparent: true, opacity: 0.35 })
+    ))
+    cloud.add(hullMesh)
+  }
+
+  const dominantGroup = new THREE.Group()
+  dominantGroup.name = 'dominant'
+  const markerGeometry = new THREE.SphereGeometry(DOMINANT_COLOR_RADIUS, 24, 16)
+  const outlineGeometry = new THREE.SphereGeometry(DOMINANT_COLOR_RADIUS * 1.15, 24, 16)
+  for (const { hex, share } of dominant) {
+    const marker = new THREE.Mesh(markerGeometry, new THREE.MeshBasicMaterial({ color: hex }))
+    marker.position.copy(space.colorToPosition(hexToRGB(hex)))
+    marker.add(new THREE.Mesh(outlineGeometry, new THREE.MeshBasicMaterial({ color: 0x000000, side: THREE.BackSide })))
+    // Hovered like an imported color
+    marker.userData = { name: `${Math.round(share * 100)}% of image`, hex } satisfies NamedColor
+    dominantGroup.add(marker)
+  }
+  cloud.add(dominantGroup)
+  return cloud
+}
+
+function disposeObject(object: THREE.Object3D) {
+  object.traverse(child => {
+    if (child instanceof THREE.Points || child instanceof THREE.LineSegments) {
+      child.geometry.dispose()
+      ;(child.material as THREE.Material).dispose()
+    } else if (child instanceof THREE.Mesh) {
+      child.geometry.dispose()
+      ;(child.material as THREE.Material).dispose()
+    }
+  })
+}
+
+function isTypingTarget(target: EventTarget | null): boolean {
+  return target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))
+}
+
+function disposeLabel(cursor: THREE.Object3D) {
+  const label = cursor.getObjectByName('label') as THREE.Sprite | undefined
+  if (!label) return
+  cursor.remove(label)
+  disposeLabelSprite(label)
 }
 
 export interface RGBCubeVisualizerHandle {
-  showRemoteCursor: (sessionId: string, position: any, normal: any, color: string) => void
+  // Glides to the cursor's new position, see cursorTrack
+  showRemoteCursor: (cursor: CursorState) => void
   hideRemoteCursor: (sessionId: string) => void
+  // Mark the color another user locked, or remove their marker with null
+  showRemoteSelection: (sessionId: string, selection: LockedSelection | null) => void
   removeUser: (sessionId: string) => void
-  syncCamera: (cameraData: any) => void
+  // Name shown next to this session's remote cursor
+  setUserLabel: (sessionId: string, label: string) => void
+  // Trails behind remote cursors and name tags beside them
+  setCursorOptions: (options: RemoteCursorOptions) => void
+  // Show the room's hover heatmap over the cube faces, or hide it with null
+  setHeatmap: (heatmap: HeatmapState | null) => void
+  setPins: (pins: Pin[]) => void
+  // Swing the camera round to look at a pin
+  focusPin: (pinId: string) => void
+  // Last point hovered on the cube, used by "Pin current color"
+  getLastPlacement: () => PinPlacement | null
+  // Plot an imported palette inside the cube; an empty list clears it
+  setImportedColors: (colors: NamedColor[]) => void
+  // Show an image's pixels, gamut hull and dominant colors, or clear them with null
+  setImageCloud: (analysis: ImageAnalysis | null) => void
+  // Swap the color solid; everything plotted in it moves to match
+  setColorSpace: (id: ColorSpaceId) => void
+  // Cut the solid open so interior colors can be picked, or close it with null
+  setSlice: (slice: SliceState | null) => void
+  syncCamera: (cameraData: CameraState) => void
+  getCamera: () => CameraState | null
 }
 
 export const RGBCubeVisualizer = forwardRef<RGBCubeVisualizerHandle, RGBCubeVisualizerProps>(({
   onColorPick,
   onCursorLeave,
+  onColorCommit,
   onCameraChange,
+  onCameraInteractionStart,
+  onPinDrop,
+  onSelectionLock,
   currentUserSessionId,
   onColorDisplay
 }, ref) => {
   // Use refs to store latest props to avoid dependency issues
   const onColorPickRef = useRef(onColorPick)
   const onCursorLeaveRef = useRef(onCursorLeave)
+  const onColorCommitRef = useRef(onColorCommit)
   const onCameraChangeRef = useRef(onCameraChange)
+  const onCameraInteractionStartRef = useRef(onCameraInteractionStart)
+  const onPinDropRef = useRef(onPinDrop)
+  const onSelectionLockRef = useRef(onSelectionLock)
   const onColorDisplayRef = useRef(onColorDisplay)
 
   // Update refs when props change
   useEffect(() => {
     onColorPickRef.current = onColorPick
     onCursorLeaveRef.current = onCursorLeave
+    onColorCommitRef.current = onColorCommit
     onCameraChangeRef.current = onCameraChange
+    onCameraInteractionStartRef.current = onCameraInteractionStart
+    onPinDropRef.current = onPinDrop
+    onSelectionLockRef.current = onSelectionLock
     onColorDisplayRef.current = onColorDisplay
   })
   const canvasRef = useRef<HTMLCanvasElement>(null)
@@ -51,13 +265,47 @@ export const RGBCubeVisualizer = forwardRef<RGBCubeVisualizerHandle, RGBCubeVisu
   const rendererRef = useRef<THREE.WebGLRenderer | null>(null)
   const cameraRef = useRef<THREE.PerspectiveCamera | null>(null)
   const controlsRef = useRef<OrbitControls | null>(null)
-  const cubeRef = useRef<THREE.Mesh | null>(null)
+  const solidRef = useRef<THREE.Mesh<THREE.BufferGeometry, THREE.ShaderMaterial> | null>(null)
+  const solidEdgesRef = useRef<THREE.LineSegments<THREE.EdgesGeometry, THREE.LineBasicMaterial> | null>(null)
+  const colorSpaceRef = useRef<ColorSpace>(getColorSpace('rgb'))
+  const sliceRef = useRef<SliceState | null>(null)
+  // Keeps points with n·p ≤ offset, i.e. its normal is the slice normal flipped
+  const clipPlaneRef = useRef(new THREE.Plane())
+  const sliceCapRef = useRef<THREE.Mesh<THREE.PlaneGeometry, THREE.ShaderMaterial> | null>(null)
   const raycasterRef = useRef<THREE.Raycaster | null>(null)
   const mouseRef = useRef<THREE.Vector2 | null>(null)
   const cursorIndicatorRef = useRef<THREE.Mesh | null>(null)
-  const remoteCursorsRef = useRef<Map<string, THREE.Mesh>>(new Map())
+  const remoteCursorLayerRef = useRef<RemoteCursorLayer | null>(null)
+  const remoteSelectionsRef = useRef<Map<string, THREE.Mesh>>(new Map())
+  const userLabelsRef = useRef<Map<string, string>>(new Map())
+  const heatmapLayerRef = useRef<HeatmapLayer | null>(null)
+  const pinsGroupRef = useRef<THREE.Group | null>(null)
+  const pinsRef = useRef<Map<string, Pin>>(new Map())
+  const importGroupRef = useRef<THREE.Group | null>(null)
+  const imageCloudRef = useRef<THREE.Group | null>(null)
+  // Kept so plotted colors can be rebuilt when the solid changes
+  const importedColorsRef = useRef<NamedColor[]>([])
+  const imageAnalysisRef = useRef<ImageAnalysis | null>(null)
+  const heatmapRequestedRef = useRef(false)
+  const pinTooltipRef = useRef<HTMLDivElement>(null)
+  const lastPlacementRef = useRef<PinPlacement | null>(null)
+  // While set, hovering leaves the picked color alone
+  const lockedSelectionRef = useRef<LockedSelection | null>(null)
   const isCameraMovingRef = useRef<boolean>(false)
+  // Frame requested from the render loop, if any
   const animationIdRef = useRef<number | null>(null)
+  // Set by animate(); see invalidate
+  const invalidateRef = useRef<() => void>(() => {})
+  // Set by animate(); drops a pending wake-up and lets one last frame settle things
+  const restRef = useRef<() => void>(() => {})
+  // When the cursor indicator stops pulsing (performance.now() time)
+  const pulseUntilRef = useRef(0)
+  const colorCommitterRef = useRef<ColorCommitter | null>(null)
+  // Where a followed camera is heading; the render loop eases towards it
+  const cameraGoalRef = useRef<{ position: THREE.Vector3; target: THREE.Vector3 } | null>(null)
+
+  // Ask for a frame after changing anything on screen; nothing is drawn otherwise
+  const invalidate = useCallback(() => invalidateRef.current(), [])
 
   const initScene = useCallback(() => {
     if (!canvasRef.current) return
@@ -71,17 +319,42 @@ export const RGBCubeVisualizer = forwardRef<RGBCubeVisualizerHandle, RGBCubeVisu
     scene.background = new THREE.Color(0x222222)
     sceneRef.current = scene
 
+    // Pin markers live in their own group so hover tests only look at them
+    const pinsGroup = new THREE.Group()
+    scene.add(pinsGroup)
+    pinsGroupRef.current = pinsGroup
+
+    // Same for imported palette colors
+    const importGroup = new THREE.Group()
+    scene.add(importGroup)
+    importGroupRef.current = importGroup
+
     // Camera
     const camera = new THREE.PerspectiveCamera(60, canvasWidth / canvasHeight, 0.1, 1000)
     camera.position.set(1.5, 1.5, 1.5)
     cameraRef.current = camera
 
     // Renderer
-    const renderer = new THREE.WebGLRenderer({ canvas, antialias: true })
+    // The slice cap needs a stencil buffer, which three.js leaves out by default
+    const renderer = new THREE.WebGLRenderer({ canvas, antialias: true, stencil: true })
     renderer.setSize(canvasWidth, canvasHeight)
     renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2))
+    renderer.localClippingEnabled = true
     rendererRef.current = renderer
 
+    const sliceCap = createSliceCap(colorSpaceRef.current)
+    scene.add(sliceCap)
+    sliceCapRef.current = sliceCap
+
+    // Placed by the hovered color, so remote cursors land on the same color whatever
+    // solid we show. Stored positions replayed without one are taken as they are.
+    const remoteCursorLayer = createRemoteCursorLayer((position, normal, rgb) => {
+      const space = colorSpaceRef.current
+      return resolvePlacement(space, position, normal, rgb ?? space.positionToColor(position))
+    })
+    scene.add(remoteCursorLayer.object)
+    remoteCursorLayerRef.current = remoteCursorLayer
+
     // Controls
     const controls = new OrbitControls(camera, renderer.domElement)
     controls.enableDamping = true
@@ -89,14 +362,24 @@ export const RGBCubeVisualizer = forwardRef<RGBCubeVisualizerHandle, RGBCubeVisu
     controls.minDistance = 0.7
     controls.maxDistance = 15
     controls.enableZoom = true
+    // One finger picks (see attachPointerGestures); two orbit and pinch to zoom
+    controls.touches = { ONE: null, TWO: THREE.TOUCH.DOLLY_ROTATE }
     controlsRef.current = controls
 
+    // Fired for drags, zooms and each damped step after them
+    controls.addEventListener('change', invalidate)
+
     // Camera interaction listeners
     controls.addEventListener('start', () => {
       isCameraMovingRef.current = true
-      if (cursorIndicatorRef.current) {
+      if (cursorIndicatorRef.current && !lockedSelectionRef.current) {
         cursorIndicatorRef.current.visible = false
+        invalidate()
       }
+
+      // Taking the controls stops any camera follow in progress
+      cameraGoalRef.current = null
+      onCameraInteractionStartRef.current?.()
     })
 
     controls.addEventListener('end', () => {
@@ -121,6 +404,7 @@ export const RGBCubeVisualizer = forwardRef<RGBCubeVisualizerHandle, RGBCubeVisu
       cameraRef.current.aspect = width / height
       cameraRef.current.updateProjectionMatrix()
       rendererRef.current.setSize(width, height, false)
+      invalidate()
     }
 
     // Use ResizeObserver to watch the canvas element itself
@@ -131,6 +415,7 @@ export const RGBCubeVisualizer = forwardRef<RGBCubeVisualizerHandle, RGBCubeVisu
           cameraRef.current.aspect = width / height
           cameraRef.current.updateProjectionMatrix()
           rendererRef.current.setSize(width, height, false)
+          invalidate()
         }
       }
     })
@@ -148,79 +433,51 @@ export const RGBCubeVisualizer = forwardRef<RGBCubeVisualizerHandle, RGBCubeVisu
     }
   }, [])
 
-  const createRGBCube = useCallback(() => {
+  // Build (or rebuild) the mesh for the current color space
+  const createColorSolid = useCallback(() => {
     if (!sceneRef.current) return
 
-    console.log('Creating RGB color cube...')
-
-    const geometry = new THREE.BoxGeometry(1, 1, 1, 5, 5, 5)
-    const positions = geometry.attributes.position
-    const colors = new Float32Array(positions.count * 3)
-
-    // Color each vertex based on its position
-    for (let i = 0; i < positions.count; i++) {
-      const x = positions.getX(i)
-      const y = positions.getY(i)
-      const z = positions.getZ(i)
-
-      // Map position from [-0.5, 0.5] to [0, 1] for RGB values
-      let r = x + 0.5
-      let g = y + 0.5
-      let b = z + 0.5
-
-      // Apply gamma correction
-      r = Math.pow(r, 2.2)
-      g = Math.pow(g, 2.2)
-      b = Math.pow(b, 2.2)
-
-      colors[i * 3] = r
-      colors[i * 3 + 1] = g
-      colors[i * 3 + 2] = b
+    for (const previous of [solidRef.current, solidEdgesRef.current]) {
+      if (previous) {
+        sceneRef.current.remove(previous)
+        disposeObject(previous)
+      }
     }
 
-    geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3))
-
-    const material = new THREE.MeshBasicMaterial({
-      vertexColors: true,
+    const geometry = colorSpaceRef.current.createGeometry()
+    const clippingPlanes = sliceRef.current ? [clipPlaneRef.current] : []
+    const material = createSolidMaterial(colorSpaceRef.current, {
       side: THREE.DoubleSide,
-      transparent: false,
-      opacity: 1.0
+      clippingPlanes
     })
 
-    const cube = new THREE.Mesh(geometry, material)
-    sceneRef.current.add(cube)
-    cubeRef.current = cube
-
-    // Add interactive elements
-    addCubeEdges()
-    createCursorIndicator()
-
-    console.log('RGB cube created successfully!')
-  }, [])
-
-  const addHelpers = useCallback(() => {
-    if (!sceneRef.current) return
-    const axesHelper = new THREE.AxesHelper(0.75)
-    sceneRef.current.add(axesHelper)
-  }, [])
+    const solid = new THREE.Mesh(geometry, material)
+    sceneRef.current.add(solid)
+    solidRef.current = solid
 
-  const addCubeEdges = useCallback(() => {
-    if (!sceneRef.current) return
+    for (const stencil of createSliceStencils(geometry, clipPlaneRef.current)) {
+      stencil.visible = sliceRef.current !== null
+      solid.add(stencil)
+    }
 
-    // Create wireframe edges for the cube
-    const edgeGeometry = new THREE.EdgesGeometry(new THREE.BoxGeometry(1, 1, 1))
+    // Outline only the creases (cube edges, cylinder rims), not every facet
     const edgeMaterial = new THREE.LineBasicMaterial({
       color: 0x000000,
       transparent: true,
       opacity: 0.25,
-      linewidth: 1
+      linewidth: 1,
+      clippingPlanes
     })
-
-    const wireframe = new THREE.LineSegments(edgeGeometry, edgeMaterial)
+    const wireframe = new THREE.LineSegments(new THREE.EdgesGeometry(geometry, 30), edgeMaterial)
     sceneRef.current.add(wireframe)
-
+    solidEdgesRef.current = wireframe
   }, [])
 
+  const addHelpers = useCallback(() => {
+    if (!sceneRef.current) return
+    const axesHelper = new THREE.AxesHelper(0.75)
+    sceneRef.current.add(axesHelper)
+  }, [])
 
   const createCursorIndicator = useCallback(() => {
     if (!sceneRef.current) return
@@ -250,6 +507,7 @@ export const RGBCubeVisualizer = forwardRef<RGBCubeVisualizerHandle, RGBCubeVisu
       depthWrite: false
     })
     const ring = new THREE.Mesh(ringGeometry, ringMaterial)
+    ring.name = 'ring'
     ring.renderOrder = 2
     cursorIndicator.add(ring)
 
@@ -257,72 +515,162 @@ export const RGBCubeVisualizer = forwardRef<RGBCubeVisualizerHandle, RGBCubeVisu
     cursorIndicatorRef.current = cursorIndicator
   }, [])
 
+  // Nearest point on what's left of the solid: its faces on the kept side of any
+  // slice, or the slice's cap where it passes through the inside
+  const pickSolid = useCallback((): { point: THREE.Vector3; normal: THREE.Vector3 } | null => {
+    const raycaster = raycasterRef.current
+    if (!raycaster || !solidRef.current) return null
+
+    const slice = sliceRef.current
+    const clipPlane = clipPlaneRef.current
+    const faceHit = raycaster.intersectObject(solidRef.current, false)
+      .find(intersection => !slice || clipPlane.distanceToPoint(intersection.point) >= 0)
+
+    if (slice && sliceCapRef.current) {
+      const [capHit] = raycaster.intersectObject(sliceCapRef.current, false)
+      if (capHit && colorSpaceRef.current.contains(capHit.point) && (!faceHit || capHit.distance < faceHit.distance)) {
+        return { point: capHit.point, normal: clipPlane.normal.clone() }
+      }
+    }
+
+    if (!faceHit?.face) return null
+    return { point: faceHit.point, normal: faceHit.face.normal.clone() }
+  }, [])
+
+  // Show a picked point on the solid: the indicator, the readout, and the
+  // cursor sent to the room
+  const presentPick = useCallback((point: THREE.Vector3, normal: THREE.Vector3, rgb: RGB) => {
+    invalidate()
+    const { r, g, b } = rgb
+    const hexColor = rgbToHex(rgb)
+
+    // Show and position cursor indicator
+    if (cursorIndicatorRef.current) {
+      cursorIndicatorRef.current.visible = true
+      pulseUntilRef.current = performance.now() + PICK_PULSE_MS
+
+      // Position indicator with tiny offset to prevent z-fighting
+      const offset = normal.clone().multiplyScalar(0.002)
+      cursorIndicatorRef.current.position.copy(point).add(offset)
+
+      // Orient the disc to lie flat on the surface
+      cursorIndicatorRef.current.lookAt(point.clone().sub(normal))
+
+      // Update cursor color to match the hovered color
+      ;(cursorIndicatorRef.current.material as THREE.MeshBasicMaterial).color.setStyle(hexColor)
+    }
+
+    // Resting on a color long enough commits it
+    colorCommitterRef.current?.hover(hexColor)
+
+    lastPlacementRef.current = {
+      color: hexColor,
+      rgb: { r, g, b },
+      position: { x: point.x, y: point.y, z: point.z },
+      normal: { x: normal.x, y: normal.y, z: normal.z }
+    }
+
+    // Emit color pick event
+    if (onColorPickRef.current) {
+      onColorPickRef.current({
+        position: { x: point.x, y: point.y, z: point.z },
+        normal: { x: normal.x, y: normal.y, z: normal.z },
+        color: hexColor,
+        rgb: { r, g, b }
+      })
+    }
+
+    // Update color display
+    if (onColorDisplayRef.current) {
+      onColorDisplayRef.current({ rgb: { r, g, b }, locked: lockedSelectionRef.current !== null })
+    }
+  }, [])
+
   const updateColorDisplay = useCallback(() => {
-    if (!cubeRef.current || !raycasterRef.current || !mouseRef.current || !cameraRef.current) return
+    if (!solidRef.current || !raycasterRef.current || !mouseRef.current || !cameraRef.current) return
 
     raycasterRef.current.setFromCamera(mouseRef.current, cameraRef.current)
-    const intersects = raycasterRef.current.intersectObject(cubeRef.current)
 
-    if (intersects.length > 0) {
-      const intersection = intersects[0]
-      const point = intersection.point
-      const normal = intersection.face?.normal
+    // A locked color stays put whatever the pointer is over
+    if (lockedSelectionRef.current) return
+    invalidate()
 
-      // Convert world position back to RGB values
-      const r = Math.round((point.x + 0.5) * 255)
-      const g = Math.round((point.y + 0.5) * 255)
-      const b = Math.round((point.z + 0.5) * 255)
-
-      // Clamp values to valid range
-      const rClamped = Math.max(0, Math.min(255, r))
-      const gClamped = Math.max(0, Math.min(255, g))
-      const bClamped = Math.max(0, Math.min(255, b))
-
-      const toHex = (n: number) => {
-        const hex = n.toString(16)
-        return hex.length === 1 ? '0' + hex : hex
-      }
-      const hexColor = `#${toHex(rClamped)}${toHex(gClamped)}${toHex(bClamped)}`
-
-      // Show and position cursor indicator
-      if (cursorIndicatorRef.current && normal) {
-        cursorIndicatorRef.current.visible = true
-
-        // Position indicator with tiny offset to prevent z-fighting
-        const offset = normal.clone().multiplyScalar(0.002)
-        cursorIndicatorRef.current.position.copy(point).add(offset)
-
-        // Orient the disc to lie flat on the surface
-        cursorIndicatorRef.current.lookAt(point.clone().sub(normal))
-
-        // Update cursor color to match the hovered color
-        ;(cursorIndicatorRef.current.material as THREE.MeshBasicMaterial).color.setStyle(hexColor)
-
-        // Emit color pick event
-        if (onColorPickRef.current) {
-          onColorPickRef.current({
-            position: { x: point.x, y: point.y, z: point.z },
-            normal: { x: normal.x, y: normal.y, z: normal.z },
-            color: hexColor,
-            rgb: { r: rClamped, g: gClamped, b: bClamped }
-          })
-        }
+    // Imported and dominant image colors sit inside the see-through cube and take priority over its faces
+    const importedMarkers = [
+      ...(importGroupRef.current?.children ?? []),
+      ...(imageCloudRef.current?.getObjectByName('dominant')?.children ?? [])
+    ]
+    const [importedHit] = importedMarkers.length > 0 ? raycasterRef.current.intersectObjects(importedMarkers, false) : []
+    if (importedHit) {
+      const { name, hex } = importedHit.object.userData as NamedColor
+
+      if (cursorIndicatorRef.current) {
+        cursorIndicatorRef.current.visible = false
       }
+      colorCommitterRef.current?.hover(hex)
+      onColorDisplayRef.current?.({ rgb: hexToRGB(hex), name })
+      return
+    }
 
-      // Update color display
-      const colorText = `RGB(${rClamped}, ${gClamped}, ${bClamped}) • ${hexColor.toUpperCase()}`
-      const textColor = (rClamped + gClamped + bClamped) > 384 ? 'black' : 'white'
+    const hit = pickSolid()
 
-      if (onColorDisplayRef.current) {
-        onColorDisplayRef.current(colorText, hexColor, textColor)
-      }
+    if (hit) {
+      const { point, normal } = hit
+      // Face the camera: the solids are double sided and not all are wound outwards
+      if (normal.dot(raycasterRef.current.ray.direction) > 0) normal.negate()
+
+      // Convert world position back to RGB values
+      presentPick(point, normal, colorSpaceRef.current.positionToColor(point))
     } else {
       if (cursorIndicatorRef.current) {
         cursorIndicatorRef.current.visible = false
       }
+      colorCommitterRef.current?.leave()
     }
   }, []) // Remove dependencies since we'll use refs to access latest props
 
+  // Where a color sits in the current solid, facing whichever way it is best
+  // seen from the camera. In the RGB cube that is one of the faces the color lies
+  // on, so nudging a locked color past an edge carries it onto the next face.
+  const placeColor = useCallback((rgb: RGB): { position: THREE.Vector3; normal: THREE.Vector3 } => {
+    const position = colorSpaceRef.current.colorToPosition(rgb)
+    const toCamera = cameraRef.current
+      ? cameraRef.current.position.clone().sub(position).normalize()
+      : new THREE.Vector3(0, 0, 1)
+    if (colorSpaceRef.current.id !== 'rgb') return { position, normal: toCamera }
+
+    const channels = [rgb.r, rgb.g, rgb.b]
+    let normal = toCamera
+    let bestFacing = -Infinity
+    for (const face of FACE_NORMALS) {
+      const axis = face.x !== 0 ? 0 : face.y !== 0 ? 1 : 2
+      const bound = face.x + face.y + face.z > 0 ? 255 : 0
+      const faceNormal = new THREE.Vector3(face.x, face.y, face.z)
+      if (channels[axis] === bound && faceNormal.dot(toCamera) > bestFacing) {
+        normal = faceNormal
+        bestFacing = faceNormal.dot(toCamera)
+      }
+    }
+    return { position, normal }
+  }, [])
+
+  // A locked indicator is outlined in white and drawn over everything, so a color
+  // nudged off the surface (into a cut, or the cube's interior) stays in sight
+  const styleCursorIndicator = useCallback((locked: boolean) => {
+    const indicator = cursorIndicatorRef.current
+    if (!indicator) return
+    invalidate()
+
+    const ring = indicator.getObjectByName('ring') as THREE.Mesh<THREE.RingGeometry, THREE.MeshBasicMaterial>
+    ring.material.color.set(locked ? 0xffffff : 0x000000)
+    for (const material of [indicator.material as THREE.MeshBasicMaterial, ring.material]) {
+      material.depthTest = !locked
+    }
+    indicator.renderOrder = locked ? 3 : 1
+    ring.renderOrder = locked ? 4 : 2
+    indicator.scale.setScalar(1)
+  }, [])
+
   const setupCameraSync = useCallback((controls: OrbitControls) => {
     let lastCameraUpdate = 0
     const CAMERA_UPDATE_THROTTLE = 16 // 60fps
@@ -348,25 +696,110 @@ export const RGBCubeVisualizer = forwardRef<RGBCubeVisualizerHandle, RGBCubeVisu
     })
   }, [])
 
+  // Frames are only drawn when something asks for one (see invalidate), and the
+  // loop keeps itself going only while something on screen is still moving
   const animate = useCallback(() => {
     if (!rendererRef.current || !sceneRef.current || !cameraRef.current || !controlsRef.current) return
 
-    const animateLoop = () => {
-      animationIdRef.current = requestAnimationFrame(animateLoop)
+    let lastFrameTime = performance.now()
+    // Wakes the loop when a remote cursor is due to start fading
+    let wakeTimer: ReturnType<typeof setTimeout> | null = null
+
+    const requestFrame = () => {
+      if (animationIdRef.current !== null || document.hidden) return
+      animationIdRef.current = requestAnimationFrame(renderFrame)
+    }
+
+    const renderFrame = () => {
+      animationIdRef.current = null
+      if (wakeTimer) {
+        clearTimeout(wakeTimer)
+        wakeTimer = null
+      }
+
+      const now = performance.now()
+      // After a rest, count the first frame as a normal one rather than the whole rest
+      const delta = Math.min((now - lastFrameTime) / 1000, MAX_FRAME_DELTA)
+      lastFrameTime = now
+      let isAnimating = false
+
+      // Ease towards a followed presenter's camera instead of jumping
+      const goal = cameraGoalRef.current
+      if (goal) {
+        const t = 1 - Math.exp(-CAMERA_FOLLOW_SPEED * delta)
+        cameraRef.current!.position.lerp(goal.position, t)
+        controlsRef.current!.target.lerp(goal.target, t)
+
+        if (cameraRef.current!.position.distanceToSquared(goal.position) < 1e-8 &&
+            controlsRef.current!.target.distanceToSquared(goal.target) < 1e-8) {
+          cameraGoalRef.current = null
+        }
+        isAnimating = true
+      }
 
-      controlsRef.current!.update()
+      // True while damping is still carrying the camera after the pointer let go
+      if (controlsRef.current!.update()) isAnimating = true
 
-      // Animate cursor indicator with subtle pulsing
-      if (cursorIndicatorRef.current && cursorIndicatorRef.current.visible) {
-        const time = Date.now() * 0.005
-        const scale = 1 + Math.sin(time) * 0.1
+      // Pulse the cursor indicator for a moment after each pick, dying down to
+      // rest; a locked one holds still
+      if (cursorIndicatorRef.current && cursorIndicatorRef.current.visible && !lockedSelectionRef.current) {
+        const remaining = Math.max(0, pulseUntilRef.current - now) / PICK_PULSE_MS
+        const scale = 1 + Math.sin(now * 0.005) * 0.1 * remaining
         cursorIndicatorRef.current.scale.set(scale, scale, scale)
+        if (remaining > 0) isAnimating = true
       }
 
+      const cursorWait = remoteCursorLayerRef.current?.update(now) ?? Infinity
+
       rendererRef.current!.render(sceneRef.current!, cameraRef.current!)
+
+      if (isAnimating || cursorWait === 0) {
+        requestFrame()
+      } else if (cursorWait < Infinity) {
+        wakeTimer = setTimeout(requestFrame, cursorWait)
+      }
+    }
+
+    // Hidden tabs draw nothing and wake nothing; catch up in one frame on return
+    const handleVisibilityChange = () => {
+      if (!document.hidden) {
+        requestFrame()
+        return
+      }
+      if (animationIdRef.current !== null) {
+        cancelAnimationFrame(animationIdRef.current)
+        animationIdRef.current = null
+      }
+      if (wakeTimer) {
+        clearTimeout(wakeTimer)
+        wakeTimer = null
+      }
     }
 
-    animateLoop()
+    // The frame it asks for schedules a new wake-up if a remote cursor still needs one
+    const rest = () => {
+      if (wakeTimer) {
+        clearTimeout(wakeTimer)
+        wakeTimer = null
+      }
+      requestFrame()
+    }
+
+    document.addEventListener('visibilitychange', handleVisibilityChange)
+    invalidateRef.current = requestFrame
+    restRef.current = rest
+    requestFrame()
+
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange)
+      invalidateRef.current = () => {}
+      restRef.current = () => {}
+      if (animationIdRef.current !== null) {
+        cancelAnimationFrame(animationIdRef.current)
+        animationIdRef.current = null
+      }
+      if (wakeTimer) clearTimeout(wakeTimer)
+    }
   }, [])
 
   const setupInteraction = useCallback(() => {
@@ -374,24 +807,117 @@ export const RGBCubeVisualizer = forwardRef<RGBCubeVisualizerHandle, RGBCubeVisu
 
     const canvas = canvasRef.current
 
-    const handleMouseMove = (event: MouseEvent) => {
+    // Escape only resumes hovering if the pointer is still over the canvas
+    let isPointerOver = false
+
+    // A hovering mouse or pen, or a finger scrubbing across the surface
+    const handlePoint = (clientX: number, clientY: number) => {
       if (!mouseRef.current) return
+      isPointerOver = true
 
       const rect = canvas.getBoundingClientRect()
-      mouseRef.current.x = ((event.clientX - rect.left) / rect.width) * 2 - 1
-      mouseRef.current.y = -((event.clientY - rect.top) / rect.height) * 2 + 1
+      mouseRef.current.x = ((clientX - rect.left) / rect.width) * 2 - 1
+      mouseRef.current.y = -((clientY - rect.top) / rect.height) * 2 + 1
 
       // Skip color display updates during camera movement to prevent picker circle jumping
       if (isCameraMovingRef.current) return
 
       updateColorDisplay()
+      updatePinTooltip(clientX, clientY)
+    }
+
+    const updatePinTooltip = (clientX: number, clientY: number) => {
+      const tooltip = pinTooltipRef.current
+      if (!tooltip || !raycasterRef.current || !pinsGroupRef.current) return
+
+      // The raycaster was just aimed at the pointer by updateColorDisplay
+      const [hit] = raycasterRef.current.intersectObject(pinsGroupRef.current, true)
+      let marker: THREE.Object3D | null | undefined = hit?.object
+      while (marker && marker.parent !== pinsGroupRef.current) {
+        marker = marker.parent
+      }
+      const pin = marker ? pinsRef.current.get(marker.name) : undefined
+
+      tooltip.hidden = !pin
+      if (pin) {
+        tooltip.textContent = pin.authorName ? `${pin.label} · ${pin.authorName}` : pin.label
+        tooltip.style.left = `${clientX + 12}px`
+        tooltip.style.top = `${clientY + 12}px`
+      }
+    }
+
+    const dropPin = () => {
+      // Only when actually over the cube, not at a stale point from earlier
+      if (cursorIndicatorRef.current?.visible && lastPlacementRef.current) {
+        onPinDropRef.current?.(lastPlacementRef.current)
+      }
+    }
+
+    const lock = ({ rgb, position, normal }: LockedSelection) => {
+      lockedSelectionRef.current = { rgb, position, normal }
+      styleCursorIndicator(true)
+      presentPick(new THREE.Vector3(position.x, position.y, position.z), new THREE.Vector3(normal.x, normal.y, normal.z), rgb)
+      onSelectionLockRef.current?.(lockedSelectionRef.current)
+    }
+
+    const release = () => {
+      if (!lockedSelectionRef.current) return
+      lockedSelectionRef.current = null
+      styleCursorIndicator(false)
+      onSelectionLockRef.current?.(null)
+
+      if (isPointerOver) {
+        updateColorDisplay()
+      } else {
+        handlePointerLeave()
+      }
+    }
+
+    // Lock whatever is under the pointer; clicking off the solid releases the lock
+    const lockAtPointer = () => {
+      const wasLocked = lockedSelectionRef.current !== null
+      lockedSelectionRef.current = null
+      updateColorDisplay()
+
+      const placement = cursorIndicatorRef.current?.visible ? lastPlacementRef.current : null
+      if (placement) {
+        lock(placement)
+      } else if (wasLocked) {
+        styleCursorIndicator(false)
+        onSelectionLockRef.current?.(null)
+      }
+    }
+
+    // Step a locked color along one channel, clamped to the gamut
+    const nudge = (channel: keyof RGB, step: number) => {
+      const selection = lockedSelectionRef.current
+      if (!selection) return
+
+      const rgb = { ...selection.rgb, [channel]: Math.max(0, Math.min(255, selection.rgb[channel] + step)) }
+      if (rgb[channel] === selection.rgb[channel]) return
+
+      const { position, normal } = placeColor(rgb)
+      lock({
+        rgb,
+        position: { x: position.x, y: position.y, z: position.z },
+        normal: { x: normal.x, y: normal.y, z: normal.z }
+      })
     }
 
-    const handleMouseLeave = () => {
+    const handlePointerLeave = () => {
+      isPointerOver = false
+      if (pinTooltipRef.current) {
+        pinTooltipRef.current.hidden = true
+      }
+      // A locked color stays shown, and stays where the room last saw our cursor
+      if (lockedSelectionRef.current) return
+
       // Just hide the local cursor indicator, keep last color state
       if (cursorIndicatorRef.current) {
         cursorIndicatorRef.current.visible = false
+        invalidate()
       }
+      colorCommitterRef.current?.leave()
 
       // Emit cursor leave event for other users
       if (onCursorLeaveRef.current) {
@@ -399,102 +925,397 @@ export const RGBCubeVisualizer = forwardRef<RGBCubeVisualizerHandle, RGBCubeVisu
       }
     }
 
-    canvas.addEventListener('mousemove', handleMouseMove)
-    canvas.addEventListener('mouseleave', handleMouseLeave)
+    // Taps only fire if the pointer didn't move, otherwise it was an orbit drag or a scrub
+    const handleTap = (clientX: number, clientY: number, event: PointerEvent) => {
+      if (event.pointerType === 'touch') {
+        // A long press locks, so a tap just picks, letting go of any lock
+        if (lockedSelectionRef.current) {
+          lockedSelectionRef.current = null
+          styleCursorIndicator(false)
+          onSelectionLockRef.current?.(null)
+        }
+        handlePoint(clientX, clientY)
+        colorCommitterRef.current?.commit()
+      } else if (event.shiftKey) {
+        dropPin()
+      } else {
+        lockAtPointer()
+        colorCommitterRef.current?.commit()
+      }
+    }
+
+    const handleLongPress = (clientX: number, clientY: number) => {
+      handlePoint(clientX, clientY)
+      lockAtPointer()
+    }
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      // Keys typed into the app's forms aren't meant for the cube
+      if (isTypingTarget(event.target)) return
+
+      const nudgeKey = LOCK_NUDGE_KEYS[event.key]
+      if (nudgeKey && lockedSelectionRef.current) {
+        // Arrows and Page Up/Down would otherwise scroll the page
+        event.preventDefault()
+        const [channel, direction] = nudgeKey
+        nudge(channel, direction * (event.shiftKey ? LOCK_NUDGE_LARGE_STEP : 1))
+      } else if (event.key === 'Escape') {
+        release()
+      } else if (event.key === 'Enter') {
+        colorCommitterRef.current?.commit()
+      } else if (event.key.toLowerCase() === 'p' && !event.ctrlKey && !event.metaKey && !event.altKey) {
+        dropPin()
+      }
+    }
+
+    // Any pointer leaving, a lifted finger included, stops the pick pulse so the
+    // loop can rest with nothing over the canvas
+    const handlePointerGone = () => {
+      pulseUntilRef.current = 0
+      restRef.current()
+    }
+
+    const detachPointerGestures = attachPointerGestures(canvas, {
+      onPoint: handlePoint,
+      onLeave: handlePointerLeave,
+      onTap: handleTap,
+      onLongPress: handleLongPress
+    })
+    canvas.addEventListener('pointerleave', handlePointerGone)
+    canvas.addEventListener('pointercancel', handlePointerGone)
+    window.addEventListener('keydown', handleKeyDown)
 
     return () => {
-      canvas.removeEventListener('mousemove', handleMouseMove)
-      canvas.removeEventListener('mouseleave', handleMouseLeave)
+      detachPointerGestures()
+      canvas.removeEventListener('pointerleave', handlePointerGone)
+      canvas.removeEventListener('pointercancel', handlePointerGone)
+      window.removeEventListener('keydown', handleKeyDown)
     }
   }, [])
 
+  // Tagged below the marker, clear of the owner's cursor label when that sits on the lock too
+  const applySelectionLabel = (marker: THREE.Mesh, label: string | undefined) => {
+    disposeLabel(marker)
+    if (!label) return
+
+    // The marker faces into the surface, so local -z points out of the cube
+    const sprite = createLabelSprite(`🔒 ${label}`)
+    sprite.position.set(0.03, -0.01 - CURSOR_LABEL_HEIGHT, -0.005)
+    marker.add(sprite)
+  }
+
   // Public methods for external use
-  const showRemoteCursor = useCallback((sessionId: string, position: any, normal: any, color: string) => {
+  const showRemoteCursor = useCallback((cursor: CursorState) => {
+    invalidate()
+    remoteCursorLayerRef.current?.show(cursor)
+  }, [])
+
+  const placeSelectionMarker = useCallback((marker: THREE.Object3D) => {
+    const { position, normal, color } = marker.userData as { position: Vec3; normal: Vec3; color: string }
+    const placement = resolvePlacement(colorSpaceRef.current, position, normal, hexToRGB(color))
+
+    // Update position with slight offset to prevent z-fighting
+    const finalPosition = placement.position.clone().addScaledVector(placement.normal, 0.002)
+    marker.position.copy(finalPosition)
+
+    // Orient the marker to lie flat on the surface
+    marker.lookAt(finalPosition.clone().sub(placement.normal))
+  }, [])
+
+  const hideRemoteCursor = useCallback((sessionId: string) => {
+    invalidate()
+    remoteCursorLayerRef.current?.hide(sessionId)
+  }, [])
+
+  const showRemoteSelection = useCallback((sessionId: string, selection: LockedSelection | null) => {
     if (!sceneRef.current) return
+    invalidate()
+
+    let marker = remoteSelectionsRef.current.get(sessionId)
+    if (!selection) {
+      if (marker) {
+        disposeLabel(marker)
+        sceneRef.current.remove(marker)
+        disposeObject(marker)
+        remoteSelectionsRef.current.delete(sessionId)
+      }
+      return
+    }
 
-    let remoteCursor = remoteCursorsRef.current.get(sessionId)
-
-    if (!remoteCursor) {
-      // Create new remote cursor
-      const geometry = new THREE.CircleGeometry(0.02, 16)
-      const material = new THREE.MeshBasicMaterial({
-        color: color,
-        transparent: true,
-        opacity: 0.7,
-        side: THREE.DoubleSide,
-        depthTest: true,
-        depthWrite: false
-      })
+    if (!marker) {
+      // Square where hover cursors are round, framed in white like our own locked indicator
+      marker = new THREE.Mesh(
+        new THREE.CircleGeometry(0.028, 4, Math.PI / 4),
+        new THREE.MeshBasicMaterial({ side: THREE.DoubleSide, depthWrite: false })
+      )
+      const frame = new THREE.Mesh(
+        new THREE.RingGeometry(0.028, 0.036, 4, 1, Math.PI / 4),
+        new THREE.MeshBasicMaterial({ color: 0xffffff, side: THREE.DoubleSide, depthWrite: false })
+      )
+      marker.add(frame)
+
+      applySelectionLabel(marker, userLabelsRef.current.get(sessionId))
+
+      sceneRef.current.add(marker)
+      remoteSelectionsRef.current.set(sessionId, marker)
+    }
 
-      remoteCursor = new THREE.Mesh(geometry, material)
-      remoteCursor.renderOrder = 0
-
-      const ringGeometry = new THREE.RingGeometry(0.02, 0.025, 16)
-      const ringMaterial = new THREE.MeshBasicMaterial({
-        color: 0x000000,
-        transparent: true,
-        opacity: 0.8,
-        side: THREE.DoubleSide,
-        depthTest: true,
-        depthWrite: false
-      })
-      const ring = new THREE.Mesh(ringGeometry, ringMaterial)
-      remoteCursor.add(ring)
+    const color = rgbToHex(selection.rgb)
+    marker.userData = { position: selection.position, normal: selection.normal, color }
+    placeSelectionMarker(marker)
+    ;(marker.material as THREE.MeshBasicMaterial).color.setStyle(color)
+  }, [])
+
+  const removeUser = useCallback((sessionId: string) => {
+    invalidate()
+    showRemoteSelection(sessionId, null)
+    userLabelsRef.current.delete(sessionId)
+    remoteCursorLayerRef.current?.remove(sessionId)
+  }, [])
+
+  const setUserLabel = useCallback((sessionId: string, label: string) => {
+    if (userLabelsRef.current.get(sessionId) === label) return
+    invalidate()
+    userLabelsRef.current.set(sessionId, label)
 
-      sceneRef.current.add(remoteCursor)
-      remoteCursorsRef.current.set(sessionId, remoteCursor)
+    remoteCursorLayerRef.current?.setLabel(sessionId, label)
+    const selectionMarker = remoteSelectionsRef.current.get(sessionId)
+    if (selectionMarker) {
+      applySelectionLabel(selectionMarker, label)
     }
+  }, [])
 
-    // Update position with slight offset to prevent z-fighting
-    const surfaceNormal = new THREE.Vector3(normal.x, normal.y, normal.z)
-    const offset = surfaceNormal.clone().multiplyScalar(0.002)
-    const finalPosition = new THREE.Vector3(position.x, position.y, position.z).add(offset)
-    remoteCursor.position.copy(finalPosition)
+  const setCursorOptions = useCallback((options: RemoteCursorOptions) => {
+    invalidate()
+    remoteCursorLayerRef.current?.setOptions(options)
+  }, [])
+
+  const setHeatmap = useCallback((heatmap: HeatmapState | null) => {
+    if (!sceneRef.current) return
+    invalidate()
 
-    // Orient the disc to lie flat on the surface
-    remoteCursor.lookAt(finalPosition.clone().sub(surfaceNormal))
+    heatmapRequestedRef.current = heatmap !== null
+    if (!heatmap) {
+      if (heatmapLayerRef.current) heatmapLayerRef.current.object.visible = false
+      return
+    }
 
-    // Update color
-    ;(remoteCursor.material as THREE.MeshBasicMaterial).color.setStyle(color)
-    remoteCursor.visible = true
+    if (!heatmapLayerRef.current) {
+      heatmapLayerRef.current = createHeatmapLayer()
+      sceneRef.current.add(heatmapLayerRef.current.object)
+    }
+    heatmapLayerRef.current.update(heatmap)
+    updateHeatmapVisibility()
   }, [])
 
-  const hideRemoteCursor = useCallback((sessionId: string) => {
-    const remoteCursor = remoteCursorsRef.current.get(sessionId)
-    if (remoteCursor) {
-      remoteCursor.visible = false
+  // The layer is shaped to the cube's faces, so other solids and a cut-open cube go without
+  const updateHeatmapVisibility = useCallback(() => {
+    if (!heatmapLayerRef.current) return
+    heatmapLayerRef.current.object.visible = heatmapRequestedRef.current &&
+      colorSpaceRef.current.id === 'rgb' &&
+      sliceRef.current === null
+  }, [])
+
+  const setPins = useCallback((pins: Pin[]) => {
+    const group = pinsGroupRef.current
+    if (!group) return
+    invalidate()
+
+    // Only labels change after a pin is dropped, and those are read from pinsRef on hover
+    const next = new Map(pins.map(pin => [pin.id, pin]))
+    for (const marker of [...group.children]) {
+      if (!next.has(marker.name)) {
+        group.remove(marker)
+        disposeObject(marker)
+      }
+    }
+    for (const pin of pins) {
+      if (!group.getObjectByName(pin.id)) {
+        group.add(createPinMarker(pin, colorSpaceRef.current))
+      }
     }
+    pinsRef.current = next
   }, [])
 
-  const removeUser = useCallback((sessionId: string) => {
-    const remoteCursor = remoteCursorsRef.current.get(sessionId)
-    if (remoteCursor && sceneRef.current) {
-      sceneRef.current.remove(remoteCursor)
-      remoteCursorsRef.current.delete(sessionId)
+  const focusPin = useCallback((pinId: string) => {
+    const pin = pinsRef.current.get(pinId)
+    if (!pin || !cameraRef.current || !controlsRef.current) return
+    invalidate()
+
+    // Keep the current zoom, but look at the pin straight down its face normal
+    const { position: target, normal } = resolvePlacement(colorSpaceRef.current, pin.position, pin.normal, pin.rgb)
+    const distance = Math.max(cameraRef.current.position.distanceTo(controlsRef.current.target), 1)
+    cameraGoalRef.current = {
+      position: target.clone().addScaledVector(normal, distance),
+      target
     }
   }, [])
 
-  const syncCamera = useCallback((cameraData: any) => {
-    if (!cameraRef.current || !controlsRef.current) return
+  const getLastPlacement = useCallback(() => lastPlacementRef.current, [])
 
-    cameraRef.current.position.set(cameraData.position.x, cameraData.position.y, cameraData.position.z)
-    controlsRef.current.target.set(cameraData.target.x, cameraData.target.y, cameraData.target.z)
-    controlsRef.current.update()
+  // Fade the faces while anything is plotted inside so it can be seen (and hovered)
+  const updateSolidOpacity = useCallback(() => {
+    if (!solidRef.current) return
+
+    const { material } = solidRef.current
+    const seeThrough = (importGroupRef.current?.children.length ?? 0) > 0 || imageCloudRef.current !== null
+    material.transparent = seeThrough
+    material.uniforms.opacity.value = seeThrough ? SEE_THROUGH_OPACITY : 1
+    material.depthWrite = !seeThrough
+    material.needsUpdate = true
+  }, [])
+
+  const setImportedColors = useCallback((colors: NamedColor[]) => {
+    const group = importGroupRef.current
+    if (!group) return
+    invalidate()
+
+    importedColorsRef.current = colors
+    for (const marker of [...group.children]) {
+      group.remove(marker)
+      disposeLabel(marker)
+      disposeObject(marker)
+    }
+    // Markers share one geometry; disposing it more than once above is harmless
+    const geometry = new THREE.SphereGeometry(IMPORTED_COLOR_RADIUS, 16, 12)
+    for (const color of colors) {
+      group.add(createImportedColorMarker(color, geometry, colorSpaceRef.current))
+    }
+
+    updateSolidOpacity()
+  }, [])
+
+  const setImageCloud = useCallback((analysis: ImageAnalysis | null) => {
+    if (!sceneRef.current) return
+    invalidate()
+
+    imageAnalysisRef.current = analysis
+    if (imageCloudRef.current) {
+      sceneRef.current.remove(imageCloudRef.current)
+      disposeObject(imageCloudRef.current)
+      imageCloudRef.current = null
+    }
+    if (analysis) {
+      imageCloudRef.current = createImageCloud(analysis, colorSpaceRef.current)
+      sceneRef.current.add(imageCloudRef.current)
+    }
+    updateSolidOpacity()
+  }, [])
+
+  const setColorSpace = useCallback((id: ColorSpaceId) => {
+    if (colorSpaceRef.current.id === id) return
+    invalidate()
+    colorSpaceRef.current = getColorSpace(id)
+
+    createColorSolid()
+    updateHeatmapVisibility()
+    if (sliceCapRef.current) {
+      sliceCapRef.current.material.dispose()
+      sliceCapRef.current.material = createSliceCapMaterial(colorSpaceRef.current)
+    }
+
+    // Points picked on the old solid no longer mean anything, but a locked
+    // color is held onto and moves to where it sits in the new one
+    const locked = lockedSelectionRef.current
+    if (locked) {
+      const { position, normal } = placeColor(locked.rgb)
+      lockedSelectionRef.current = {
+        rgb: locked.rgb,
+        position: { x: position.x, y: position.y, z: position.z },
+        normal: { x: normal.x, y: normal.y, z: normal.z }
+      }
+      presentPick(position, normal, locked.rgb)
+      onSelectionLockRef.current?.(lockedSelectionRef.current)
+    } else {
+      if (cursorIndicatorRef.current) cursorIndicatorRef.current.visible = false
+      lastPlacementRef.current = null
+    }
+
+    // Re-place everything that was positioned by color
+    remoteCursorLayerRef.current?.relocate()
+    remoteSelectionsRef.current.forEach(placeSelectionMarker)
+    for (const marker of [...pinsGroupRef.current?.children ?? []]) {
+      pinsGroupRef.current?.remove(marker)
+      disposeObject(marker)
+    }
+    setPins([...pinsRef.current.values()])
+    setImportedColors(importedColorsRef.current)
+    setImageCloud(imageAnalysisRef.current)
+  }, [])
+
+  const setSlice = useCallback((slice: SliceState | null) => {
+    const solid = solidRef.current
+    const cap = sliceCapRef.current
+    if (!solid || !cap) return
+    invalidate()
+
+    sliceRef.current = slice
+    const clipPlane = clipPlaneRef.current
+    const clippingPlanes = slice ? [clipPlane] : []
+    solid.material.clippingPlanes = clippingPlanes
+    if (solidEdgesRef.current) solidEdgesRef.current.material.clippingPlanes = clippingPlanes
+    solid.children.forEach(stencil => { stencil.visible = slice !== null })
+    cap.visible = slice !== null
+    updateHeatmapVisibility()
+
+    if (slice) {
+      placeSlice(slice, clipPlane, cap)
+    }
+  }, [])
+
+  const syncCamera = useCallback((cameraData: CameraState) => {
+    // The render loop interpolates towards this, see animate()
+    cameraGoalRef.current = {
+      position: new THREE.Vector3(cameraData.position.x, cameraData.position.y, cameraData.position.z),
+      target: new THREE.Vector3(cameraData.target.x, cameraData.target.y, cameraData.target.z)
+    }
+    invalidate()
+  }, [])
+
+  const getCamera = useCallback((): CameraState | null => {
+    if (!cameraRef.current || !controlsRef.current) return null
+
+    const { position } = cameraRef.current
+    const { target } = controlsRef.current
+    return {
+      position: { x: position.x, y: position.y, z: position.z },
+      target: { x: target.x, y: target.y, z: target.z }
+    }
   }, [])
 
   // Initialize everything
   useEffect(() => {
+    colorCommitterRef.current = createColorCommitter(color => onColorCommitRef.current?.(color))
+
     const cleanup1 = initScene()
-    createRGBCube()
+    createColorSolid()
+    createCursorIndicator()
     const cleanup2 = setupInteraction()
-    animate()
+    const cleanup3 = animate()
 
     return () => {
-      if (animationIdRef.current) {
-        cancelAnimationFrame(animationIdRef.current)
-      }
       if (cleanup1) cleanup1()
       if (cleanup2) cleanup2()
+      if (cleanup3) cleanup3()
+      colorCommitterRef.current?.dispose()
+      heatmapLayerRef.current?.dispose()
+      remoteCursorLayerRef.current?.dispose()
+      setImportedColors([])
+      setImageCloud(null)
+
+      remoteSelectionsRef.current.forEach(marker => {
+        disposeLabel(marker)
+        disposeObject(marker)
+      })
+      remoteSelectionsRef.current.clear()
+      for (const object of [solidRef.current, solidEdgesRef.current, sliceCapRef.current, cursorIndicatorRef.current, pinsGroupRef.current]) {
+        if (object) disposeObject(object)
+      }
+      controlsRef.current?.dispose()
+      // Last, once everything drawn with it has let go; frees the WebGL context
+      // rather than leaving one behind for every room visited
+      rendererRef.current?.dispose()
+      rendererRef.current = null
     }
   }, []) // Remove all dependencies since we want this to only run once on mount
 
@@ -502,15 +1323,30 @@ export const RGBCubeVisualizer = forwardRef<RGBCubeVisualizerHandle, RGBCubeVisu
   useImperativeHandle(ref, () => ({
     showRemoteCursor,
     hideRemoteCursor,
+    showRemoteSelection,
     removeUser,
-    syncCamera
-  }), [showRemoteCursor, hideRemoteCursor, removeUser, syncCamera])
+    setUserLabel,
+    setCursorOptions,
+    setHeatmap,
+    setPins,
+    focusPin,
+    getLastPlacement,
+    setImportedColors,
+    setImageCloud,
+    setColorSpace,
+    setSlice,
+    syncCamera,
+    getCamera
+  }), [showRemoteCursor, hideRemoteCursor, showRemoteSelection, removeUser, setUserLabel, setCursorOptions, setHeatmap, setPins, focusPin, getLastPlacement, setImportedColors, setImageCloud, setColorSpace, setSlice, syncCamera, getCamera])
 
   return (
-    <canvas
-      ref={canvasRef}
-      id="canvas"
-      className="rgb-cube-canvas"
-    />
+    <>
+      <canvas
+        ref={canvasRef}
+        id="canvas"
+        className="rgb-cube-canvas"
+      />
+      <div ref={pinTooltipRef} className="pin-tooltip" hidden />
+    </>
   )
 })
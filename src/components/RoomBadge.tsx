@@ -0,0 +1,39 @@
+import { useState, useCallback } from 'react'
+import { Link } from '@tanstack/react-router'
+import { DEFAULT_ROOM, getRoomPath, isPrivateRoom } from '../shared/rooms'
+import './RoomBadge.css'
+
+interface RoomBadgeProps {
+  roomId?: string
+}
+
+export function RoomBadge({ roomId = DEFAULT_ROOM }: RoomBadgeProps) {
+  const [copied, setCopied] = useState(false)
+
+  const roomLabel = roomId === DEFAULT_ROOM
+    ? 'Public cube'
+    : isPrivateRoom(roomId) ? 'Private room' : roomId
+
+  const handleCopyLink = useCallback(async () => {
+    const url = `${window.location.origin}${getRoomPath(roomId)}`
+    try {
+      await navigator.clipboard.writeText(url)
+      setCopied(true)
+      setTimeout(() => setCopied(false), 1500)
+    } catch (error) {
+      console.error('Failed to copy room link:', error)
+    }
+  }, [roomId])
+
+  return (
+    <div className="room-badge">
+      <span className="room-badge-name">{roomLabel}</span>
+      <button className="room-badge-button" onClick={handleCopyLink}>
+        {copied ? 'Copied!' : 'Copy link'}
+      </button>
+      <Link to="/rooms" className="room-badge-button">
+        All rooms
+      </Link>
+    </div>
+  )
+}
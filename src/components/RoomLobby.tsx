@@ -0,0 +1,104 @@
+import { useState, useEffect, useCallback } from 'react'
+import { useNavigate } from '@tanstack/react-router'
+import { createPrivateRoomId, DEFAULT_ROOM, getRoomPath, normalizeRoomId } from '../shared/rooms'
+import './RoomLobby.css'
+
+interface RoomSummary {
+  room: string
+  userCount: number
+  updatedAt: number
+}
+
+const LOBBY_POLL_INTERVAL = 5000 // ms
+
+export function RoomLobby() {
+  const navigate = useNavigate()
+  const [rooms, setRooms] = useState<RoomSummary[] | null>(null)
+  const [roomName, setRoomName] = useState('')
+
+  useEffect(() => {
+    let cancelled = false
+
+    const loadRooms = async () => {
+      try {
+        const response = await fetch('/api/rooms')
+        if (!response.ok) throw new Error(`HTTP ${response.status}`)
+        const data: { rooms: RoomSummary[] } = await response.json()
+        if (!cancelled) setRooms(data.rooms)
+      } catch (error) {
+        console.error('Failed to load rooms:', error)
+      }
+    }
+
+    loadRooms()
+    const interval = setInterval(loadRooms, LOBBY_POLL_INTERVAL)
+
+    return () => {
+      cancelled = true
+      clearInterval(interval)
+    }
+  }, [])
+
+  const goToRoom = useCallback((roomId: string) => {
+    if (roomId === DEFAULT_ROOM) {
+      navigate({ to: '/' })
+    } else {
+      navigate({ to: '/room/$roomId', params: { roomId } })
+    }
+  }, [navigate])
+
+  const handleCreatePrivateRoom = useCallback(async () => {
+    const roomId = createPrivateRoomId()
+
+    // Copy the shareable link straight away so it can be pasted into a call
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}${getRoomPath(roomId)}`)
+    } catch (error) {
+      console.error('Failed to copy room link:', error)
+    }
+
+    goToRoom(roomId)
+  }, [goToRoom])
+
+  const handleJoinRoom = useCallback((event: React.FormEvent) => {
+    event.preventDefault()
+    if (!roomName.trim()) return
+    goToRoom(normalizeRoomId(roomName))
+  }, [roomName, goToRoom])
+
+  return (
+    <div className="room-lobby">
+      <h1 className="room-lobby-title">Rooms</h1>
+
+      <ul className="room-lobby-list">
+        {rooms === null && <li className="room-lobby-empty">Loading...</li>}
+        {rooms?.length === 0 && <li className="room-lobby-empty">No active rooms right now</li>}
+        {rooms?.map(({ room, userCount }) => (
+          <li key={room}>
+            <button className="room-lobby-room" onClick={() => goToRoom(room)}>
+              <span>{room === DEFAULT_ROOM ? 'Public cube' : room}</span>
+              <span className="room-lobby-count">
+                {userCount} user{userCount === 1 ? '' : 's'}
+              </span>
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <form className="room-lobby-join" onSubmit={handleJoinRoom}>
+        <input
+          className="room-lobby-input"
+          value={roomName}
+          onChange={(event) => setRoomName(event.target.value)}
+          placeholder="room-name"
+          maxLength={64}
+        />
+        <button type="submit" className="room-lobby-button">Join</button>
+      </form>
+
+      <button className="room-lobby-button" onClick={handleCreatePrivateRoom}>
+        Create private room
+      </button>
+    </div>
+  )
+}
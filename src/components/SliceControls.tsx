@@ -0,0 +1,94 @@
+import { MAX_SLICE_OFFSET, type SliceState, type Vec3 } from '../shared/protocol'
+import type { ColorSpaceId } from '../utils/colorSpaces'
+import './SliceControls.css'
+
+interface SliceControlsProps {
+  slice: SliceState | null
+  colorSpaceId: ColorSpaceId
+  onChange: (slice: SliceState | null) => void
+  // Turn the cut to face the camera
+  onAlignToView: () => void
+}
+
+const AXES: { label: string; channel: string; normal: Vec3 }[] = [
+  { label: 'R', channel: 'Red', normal: { x: 1, y: 0, z: 0 } },
+  { label: 'G', channel: 'Green', normal: { x: 0, y: 1, z: 0 } },
+  { label: 'B', channel: 'Blue', normal: { x: 0, y: 0, z: 1 } }
+]
+
+// Start with the blue channel cut in half
+const DEFAULT_SLICE: SliceState = { normal: { x: 0, y: 0, z: 1 }, offset: 0 }
+
+function axisIndex({ x, y, z }: Vec3): number {
+  return [x, y, z].findIndex(component => Math.abs(Math.abs(component) - 1) < 1e-6)
+}
+
+// "B ≤ 128" for slices along an RGB cube axis, where the offset is a channel value
+function describeChannelCut(slice: SliceState): string | null {
+  const index = axisIndex(slice.normal)
+  if (index === -1) return null
+  const { x, y, z } = slice.normal
+  const sign = [x, y, z][index] > 0 ? 1 : -1
+  const value = Math.round(Math.max(0, Math.min(1, sign * slice.offset + 0.5)) * 255)
+  return `${AXES[index].label} ${sign > 0 ? '≤' : '≥'} ${value}`
+}
+
+export function SliceControls({ slice, colorSpaceId, onChange, onAlignToView }: SliceControlsProps) {
+  if (!slice) {
+    return (
+      <div className="slice-controls">
+        <button
+          className="slice-controls-button"
+          onClick={() => onChange(DEFAULT_SLICE)}
+          title="Cut the solid open to reach the colors inside"
+        >
+          Slice
+        </button>
+      </div>
+    )
+  }
+
+  const activeAxis = axisIndex(slice.normal)
+  const channelCut = colorSpaceId === 'rgb' ? describeChannelCut(slice) : null
+
+  return (
+    <div className="slice-controls">
+      {AXES.map(({ label, channel, normal }, index) => (
+        <button
+          key={label}
+          className={`slice-controls-button ${activeAxis === index ? 'active' : ''}`}
+          onClick={() => onChange({ normal, offset: slice.offset })}
+          title={`Cut across the ${channel.toLowerCase()} axis`}
+        >
+          {label}
+        </button>
+      ))}
+      <button className="slice-controls-button" onClick={onAlignToView} title="Cut facing the camera">
+        View
+      </button>
+      <input
+        type="range"
+        min={-MAX_SLICE_OFFSET}
+        max={MAX_SLICE_OFFSET}
+        step={0.001}
+        value={slice.offset}
+        onChange={event => onChange({ ...slice, offset: Number(event.target.value) })}
+        aria-label="Slice position"
+      />
+      {channelCut && <span className="slice-controls-readout">{channelCut}</span>}
+      <button
+        className="slice-controls-button"
+        onClick={() => onChange({
+          normal: { x: -slice.normal.x, y: -slice.normal.y, z: -slice.normal.z },
+          offset: -slice.offset
+        })}
+        title="Keep the other side"
+      >
+        Flip
+      </button>
+      <button className="slice-controls-button" onClick={() => onChange(null)}>
+        Close
+      </button>
+    </div>
+  )
+}
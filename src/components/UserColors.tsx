@@ -1,4 +1,6 @@
 import { useMemo } from 'react'
+import type { UserProfile } from '../shared/protocol'
+import { getUserLabel } from '../utils/userLabel'
 import './UserColors.css'
 
 interface UserColor {
@@ -9,10 +11,21 @@ interface UserColor {
 
 interface UserColorsProps {
   userColors: Map<string, string>
+  userProfiles?: Map<string, UserProfile>
   currentUserSessionId?: string | null
+  presenters?: Set<string>
+  followingSessionId?: string | null
+  onUserClick?: (sessionId: string) => void
 }
 
-export function UserColors({ userColors, currentUserSessionId }: UserColorsProps) {
+export function UserColors({
+  userColors,
+  userProfiles,
+  currentUserSessionId,
+  presenters,
+  followingSessionId,
+  onUserClick
+}: UserColorsProps) {
   const userColorArray = useMemo(() => {
     const colors: UserColor[] = []
     userColors.forEach((color, sessionId) => {
@@ -40,7 +53,11 @@ export function UserColors({ userColors, currentUserSessionId }: UserColorsProps
           key={sessionId}
           sessionId={sessionId}
           color={color}
+          profile={userProfiles?.get(sessionId)}
           isCurrentUser={isCurrentUser}
+          isPresenting={presenters?.has(sessionId)}
+          isFollowed={sessionId === followingSessionId}
+          onClick={onUserClick}
         />
       ))}
     </div>
@@ -50,22 +67,38 @@ export function UserColors({ userColors, currentUserSessionId }: UserColorsProps
 interface UserColorCircleProps {
   sessionId: string
   color: string
+  profile?: UserProfile
   isCurrentUser?: boolean
+  isPresenting?: boolean
+  isFollowed?: boolean
+  onClick?: (sessionId: string) => void
 }
 
-function UserColorCircle({ sessionId, color, isCurrentUser }: UserColorCircleProps) {
-  const userName = isCurrentUser ? `User ${sessionId.slice(-4)} (you!)` : `User ${sessionId.slice(-4)}`
+function UserColorCircle({ sessionId, color, profile, isCurrentUser, isPresenting, isFollowed, onClick }: UserColorCircleProps) {
+  const label = getUserLabel(sessionId, profile)
+  const userName = isCurrentUser ? `${label} (you!)` : label
+  // Only other people's presenting sessions can be followed
+  const canFollow = isPresenting && !isCurrentUser
+
+  const className = [
+    'user-color-circle',
+    isPresenting ? 'presenting' : '',
+    isFollowed ? 'followed' : ''
+  ].filter(Boolean).join(' ')
 
   return (
     <div
-      className="user-color-circle"
+      className={className}
       data-user-id={userName}
       style={{ backgroundColor: color }}
+      onClick={canFollow ? () => onClick?.(sessionId) : undefined}
+      title={canFollow ? (isFollowed ? 'Stop following' : 'Follow their view') : undefined}
     >
+      {profile?.avatar && <span className="user-color-avatar">{profile.avatar}</span>}
       <div className="user-name-tooltip">
         {userName}
+        {isPresenting && ' · presenting'}
       </div>
     </div>
   )
 }
-
@@ -0,0 +1,65 @@
+import { COLOR_SPACES, type ColorSpaceId } from '../utils/colorSpaces'
+import type { RemoteCursorOptions } from '../utils/remoteCursorLayer'
+import './ViewControls.css'
+
+interface ViewControlsProps {
+  showHeatmap: boolean
+  onToggleHeatmap: () => void
+  colorSpaceId: ColorSpaceId
+  onColorSpaceChange: (id: ColorSpaceId) => void
+  cursorOptions: RemoteCursorOptions
+  onCursorOptionsChange: (options: RemoteCursorOptions) => void
+}
+
+export function ViewControls({
+  showHeatmap,
+  onToggleHeatmap,
+  colorSpaceId,
+  onColorSpaceChange,
+  cursorOptions,
+  onCursorOptionsChange
+}: ViewControlsProps) {
+  // The heatmap is drawn on the cube's faces
+  const heatmapAvailable = colorSpaceId === 'rgb'
+
+  return (
+    <div className="view-controls">
+      <select
+        className="view-controls-button"
+        value={colorSpaceId}
+        onChange={event => onColorSpaceChange(event.target.value as ColorSpaceId)}
+        aria-label="Color solid"
+      >
+        {COLOR_SPACES.map(space => (
+          <option key={space.id} value={space.id}>
+            {space.label}
+          </option>
+        ))}
+      </select>
+      <button
+        className={`view-controls-button ${showHeatmap && heatmapAvailable ? 'active' : ''}`}
+        onClick={onToggleHeatmap}
+        disabled={!heatmapAvailable}
+        title={heatmapAvailable
+          ? 'Where people in this room hover; dark areas have never been visited'
+          : 'The heatmap is only shown on the RGB cube'}
+      >
+        {showHeatmap ? 'Hide heatmap' : 'Show heatmap'}
+      </button>
+      <button
+        className={`view-controls-button ${cursorOptions.trails ? 'active' : ''}`}
+        onClick={() => onCursorOptionsChange({ ...cursorOptions, trails: !cursorOptions.trails })}
+        title="Fading trails behind other people's cursors"
+      >
+        Trails
+      </button>
+      <button
+        className={`view-controls-button ${cursorOptions.labels ? 'active' : ''}`}
+        onClick={() => onCursorOptionsChange({ ...cursorOptions, labels: !cursorOptions.labels })}
+        title="Names beside other people's cursors; turn off to declutter a busy room"
+      >
+        Names
+      </button>
+    </div>
+  )
+}
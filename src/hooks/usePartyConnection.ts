@@ -1,38 +1,71 @@
-import { useCallback, useState, useEffect } from 'react'
+import { useCallback, useState, useEffect, useRef } from 'react'
 import { usePartySocket } from 'partysocket/react'
+import { DEFAULT_ROOM } from '../shared/rooms'
+import {
+  BINARY_FRAME_VERSION,
+  createCursorClock,
+  encodeClientFrame,
+  encodeMessage,
+  isUserProfile,
+  parseServerMessage,
+  type CameraState,
+  type ClientCursorMoveMessage,
+  type ClientMessage,
+  type CursorState,
+  type HeatmapState,
+  type LockedSelection,
+  type NamedColor,
+  type Pin,
+  type PinPlacement,
+  type SliceState,
+  type Swatch,
+  type UserProfile,
+  type Vec3
+} from '../shared/protocol'
 
-interface ColorPickEvent {
-  position: { x: number; y: number; z: number }
-  normal: { x: number; y: number; z: number }
-  color: string
-  rgb: { r: number; g: number; b: number }
-}
+// The hook stamps each move with its sequence number and send time
+type ColorPickEvent = Omit<ClientCursorMoveMessage, 'type' | 'seq' | 'sentAt'>
+
+type CameraChangeEvent = CameraState
+
+// The name and avatar the server last confirmed for us, sent on identify so they
+// follow this browser into every room
+const PROFILE_KEY = 'color-picker-profile'
 
-interface CameraChangeEvent {
-  position: { x: number; y: number; z: number }
-  target: { x: number; y: number; z: number }
+function loadProfile(): UserProfile | undefined {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(PROFILE_KEY) ?? 'null')
+    return isUserProfile(stored) ? stored : undefined
+  } catch {
+    return undefined
+  }
 }
 
-interface PartyMessage {
-  type: 'cursor-move' | 'cursor-leave' | 'user-disconnect' | 'camera-sync' | 'user-count' | 'user-joined' | 'user-color-change' | 'user-identified' | 'identify'
-  sessionId?: string
-  persistentUserId?: string
-  position?: any
-  normal?: any
-  color?: string
-  camera?: any
-  count?: number
+function saveProfile({ displayName, avatar }: UserProfile) {
+  localStorage.setItem(PROFILE_KEY, JSON.stringify({ displayName, avatar }))
 }
 
 interface UsePartyConnectionOptions {
-  onCursorMove?: (sessionId: string, position: any, normal: any, color: string) => void
+  onCursorMove?: (cursor: CursorState) => void
   onCursorLeave?: (sessionId: string) => void
-  onUserJoined?: (sessionId: string, color: string) => void
+  onUserJoined?: (sessionId: string, color: string, profile: UserProfile) => void
   onUserDisconnect?: (sessionId: string) => void
-  onCameraSync?: (camera: any) => void
+  onUserResumed?: (sessionId: string, previousSessionId: string | undefined, color: string, profile: UserProfile) => void
+  onUserProfile?: (sessionId: string, profile: UserProfile) => void
+  onCameraSync?: (sessionId: string, camera: CameraState) => void
+  onPresenterChange?: (sessionId: string, presenting: boolean, camera?: CameraState, slice?: SliceState) => void
+  onSliceSync?: (sessionId: string, slice: SliceState | null) => void
+  onSelectionLock?: (sessionId: string, selection: LockedSelection | null) => void
   onUserCountUpdate?: (count: number) => void
   onUserColorChange?: (sessionId: string, color: string) => void
+  onHeatmap?: (heatmap: HeatmapState) => void
+  onPinList?: (pins: Pin[]) => void
+  onPinUpsert?: (pin: Pin) => void
+  onPinDelete?: (pinId: string) => void
+  onPalette?: (swatches: Swatch[]) => void
+  onImportedColors?: (colors: NamedColor[], sharedBy?: string) => void
   partyHost?: string
+  room?: string
 }
 
 export function usePartyConnection({
@@ -40,13 +73,31 @@ export function usePartyConnection({
   onCursorLeave,
   onUserJoined,
   onUserDisconnect,
+  onUserResumed,
+  onUserProfile,
   onCameraSync,
+  onPresenterChange,
+  onSliceSync,
+  onSelectionLock,
   onUserCountUpdate,
   onUserColorChange,
-  partyHost
+  onHeatmap,
+  onPinList,
+  onPinUpsert,
+  onPinDelete,
+  onPalette,
+  onImportedColors,
+  partyHost,
+  room = DEFAULT_ROOM
 }: UsePartyConnectionOptions) {
   const [isConnected, setIsConnected] = useState(false)
   const [userSessionId, setUserSessionId] = useState<string | null>(null)
+  // Frame layout the server agreed to for this connection, or 0 for JSON only
+  const binaryVersionRef = useRef(0)
+  // Read inside handleMessage without re-creating it on every identify
+  const userSessionIdRef = useRef<string | null>(null)
+  // One sequence for every move this client sends, across reconnects
+  const [nextCursorTiming] = useState(createCursorClock)
 
   // Get or create persistent user ID
   const getPersistentUserId = useCallback(() => {
@@ -61,54 +112,87 @@ export function usePartyConnection({
 
   const handleMessage = useCallback((event: MessageEvent) => {
     try {
-      const data: PartyMessage = JSON.parse(event.data)
+      const data = parseServerMessage(event.data)
 
       switch (data.type) {
         case 'cursor-move':
-          if (data.sessionId && onCursorMove) {
-            onCursorMove(data.sessionId, data.position, data.normal, data.color!)
-          }
+          onCursorMove?.(data)
+          break
+        case 'cursor-batch':
+          // Batches go to the whole room, including our own latest cursor
+          data.cursors.forEach(cursor => {
+            if (cursor.sessionId !== userSessionIdRef.current) {
+              onCursorMove?.(cursor)
+            }
+          })
           break
         case 'cursor-leave':
-          if (data.sessionId && onCursorLeave) {
-            onCursorLeave(data.sessionId)
-          }
+          onCursorLeave?.(data.sessionId)
           break
         case 'user-joined':
-          if (data.sessionId && data.color && onUserJoined) {
-            onUserJoined(data.sessionId, data.color)
-          }
+          if (data.sessionId === userSessionIdRef.current) saveProfile(data)
+          onUserJoined?.(data.sessionId, data.color, { displayName: data.displayName, avatar: data.avatar })
           break
         case 'user-disconnect':
-          if (data.sessionId && onUserDisconnect) {
-            onUserDisconnect(data.sessionId)
-          }
+          onUserDisconnect?.(data.sessionId)
+          break
+        case 'user-resumed':
+          if (data.sessionId === userSessionIdRef.current) saveProfile(data)
+          onUserResumed?.(data.sessionId, data.previousSessionId, data.color, { displayName: data.displayName, avatar: data.avatar })
+          break
+        case 'user-profile':
+          if (data.sessionId === userSessionIdRef.current) saveProfile(data)
+          onUserProfile?.(data.sessionId, { displayName: data.displayName, avatar: data.avatar })
           break
         case 'camera-sync':
-          if (data.camera && onCameraSync) {
-            onCameraSync(data.camera)
-          }
+          onCameraSync?.(data.sessionId, data.camera)
+          break
+        case 'presenter-change':
+          onPresenterChange?.(data.sessionId, data.presenting, data.camera, data.slice)
+          break
+        case 'slice-sync':
+          onSliceSync?.(data.sessionId, data.slice)
+          break
+        case 'selection-lock':
+          onSelectionLock?.(data.sessionId, data.selection)
           break
         case 'user-count':
-          if (typeof data.count === 'number' && onUserCountUpdate) {
-            onUserCountUpdate(data.count)
-          }
+          onUserCountUpdate?.(data.count)
           break
         case 'user-color-change':
-          if (data.sessionId && data.color && onUserColorChange) {
-            onUserColorChange(data.sessionId, data.color)
-          }
+          onUserColorChange?.(data.sessionId, data.color)
+          break
+        case 'heatmap':
+          onHeatmap?.({ resolution: data.resolution, cells: data.cells })
+          break
+        case 'pin-list':
+          onPinList?.(data.pins)
+          break
+        case 'pin-upsert':
+          onPinUpsert?.(data.pin)
+          break
+        case 'pin-delete':
+          onPinDelete?.(data.id)
+          break
+        case 'palette':
+          onPalette?.(data.swatches)
+          break
+        case 'imported-colors':
+          onImportedColors?.(data.colors, data.sharedBy)
           break
         case 'user-identified':
-          if (data.sessionId) {
-            setUserSessionId(data.sessionId)
-          }
+          binaryVersionRef.current = data.binary === true ? data.binaryVersion ?? 1 : 0
+          userSessionIdRef.current = data.sessionId
+          setUserSessionId(data.sessionId)
+          break
+        case 'error':
+          console.error(`Server rejected message (${data.code}):`, data.message)
           break
       }
     } catch (error) {
       console.error('Invalid message format:', error)
     }
-  }, [onCursorMove, onCursorLeave, onUserJoined, onUserDisconnect, onCameraSync, onUserCountUpdate, onUserColorChange])
+  }, [onCursorMove, onCursorLeave, onUserJoined, onUserDisconnect, onUserResumed, onUserProfile, onCameraSync, onPresenterChange, onSliceSync, onSelectionLock, onUserCountUpdate, onUserColorChange, onHeatmap, onPinList, onPinUpsert, onPinDelete, onPalette, onImportedColors])
 
   const handleOpen = useCallback(() => {
     console.log('PartySocket connected')
@@ -119,66 +203,164 @@ export function usePartyConnection({
     console.log('PartySocket disconnected')
     setIsConnected(false)
     setUserSessionId(null)
+    userSessionIdRef.current = null
+    binaryVersionRef.current = 0
   }, [])
 
   // Use the official PartyKit React hook
   const socket = usePartySocket({
     host: partyHost || window.location.host,
     party: "color-picker-server",
-    room: 'color-picker',
+    room,
     onOpen: handleOpen,
     onClose: handleClose,
     onMessage: handleMessage,
   })
 
+  // Receive binary frames as ArrayBuffers rather than Blobs
+  useEffect(() => {
+    socket.binaryType = 'arraybuffer'
+  }, [socket])
+
+  const sendMessage = useCallback((message: ClientMessage) => {
+    if (socket && socket.readyState === WebSocket.OPEN) {
+      const frame = binaryVersionRef.current > 0 ? encodeClientFrame(message, binaryVersionRef.current) : null
+      socket.send(frame ?? encodeMessage(message))
+    }
+  }, [socket])
+
   // Send identify message when socket becomes available
   useEffect(() => {
-    if (socket && socket.readyState === WebSocket.OPEN && isConnected) {
-      const persistentId = getPersistentUserId()
-      socket.send(JSON.stringify({
+    if (isConnected) {
+      sendMessage({
         type: 'identify',
-        persistentUserId: persistentId
-      }))
+        persistentUserId: getPersistentUserId(),
+        binary: true,
+        binaryVersion: BINARY_FRAME_VERSION,
+        profile: loadProfile()
+      })
     }
-  }, [socket, isConnected, getPersistentUserId])
+  }, [sendMessage, isConnected, getPersistentUserId])
 
   const sendColorPick = useCallback((event: ColorPickEvent) => {
-    if (socket && socket.readyState === WebSocket.OPEN) {
-      socket.send(JSON.stringify({
-        type: 'cursor-move',
-        position: event.position,
-        normal: event.normal,
-        color: event.color,
-        rgb: event.rgb
-      }))
-    }
-  }, [socket])
+    sendMessage({
+      type: 'cursor-move',
+      position: event.position,
+      normal: event.normal,
+      color: event.color,
+      rgb: event.rgb,
+      ...nextCursorTiming()
+    })
+  }, [sendMessage, nextCursorTiming])
 
   const sendCursorLeave = useCallback(() => {
-    if (socket && socket.readyState === WebSocket.OPEN) {
-      socket.send(JSON.stringify({
-        type: 'cursor-leave'
-      }))
-    }
-  }, [socket])
+    sendMessage({
+      type: 'cursor-leave'
+    })
+  }, [sendMessage])
 
   const sendCameraChange = useCallback((event: CameraChangeEvent) => {
-    if (socket && socket.readyState === WebSocket.OPEN) {
-      socket.send(JSON.stringify({
-        type: 'camera-sync',
-        camera: event
-      }))
-    }
-  }, [socket])
+    sendMessage({
+      type: 'camera-sync',
+      camera: event
+    })
+  }, [sendMessage])
 
   const sendColorChange = useCallback((color: string) => {
-    if (socket && socket.readyState === WebSocket.OPEN) {
-      socket.send(JSON.stringify({
-        type: 'user-color-change',
-        color: color
-      }))
-    }
-  }, [socket])
+    sendMessage({
+      type: 'user-color-change',
+      color: color
+    })
+  }, [sendMessage])
+
+  const sendProfile = useCallback((profile: UserProfile) => {
+    sendMessage({
+      type: 'user-profile',
+      displayName: profile.displayName,
+      avatar: profile.avatar
+    })
+  }, [sendMessage])
+
+  const requestHeatmap = useCallback(() => {
+    sendMessage({
+      type: 'heatmap-request'
+    })
+  }, [sendMessage])
+
+  const sendPinCreate = useCallback((label: string, placement: PinPlacement) => {
+    sendMessage({
+      type: 'pin-create',
+      label,
+      rgb: placement.rgb,
+      position: placement.position,
+      normal: placement.normal
+    })
+  }, [sendMessage])
+
+  const sendPinRename = useCallback((id: string, label: string) => {
+    sendMessage({
+      type: 'pin-rename',
+      id,
+      label
+    })
+  }, [sendMessage])
+
+  const sendPinDelete = useCallback((id: string) => {
+    sendMessage({
+      type: 'pin-delete',
+      id
+    })
+  }, [sendMessage])
+
+  const sendPaletteAdd = useCallback((color: string) => {
+    sendMessage({
+      type: 'palette-add',
+      color
+    })
+  }, [sendMessage])
+
+  const sendPaletteMove = useCallback((id: string, afterId: string | null) => {
+    sendMessage({
+      type: 'palette-move',
+      id,
+      afterId
+    })
+  }, [sendMessage])
+
+  const sendPaletteRemove = useCallback((id: string) => {
+    sendMessage({
+      type: 'palette-remove',
+      id
+    })
+  }, [sendMessage])
+
+  const sendImportedColors = useCallback((colors: NamedColor[]) => {
+    sendMessage({
+      type: 'imported-colors',
+      colors
+    })
+  }, [sendMessage])
+
+  const sendSlice = useCallback((slice: SliceState | null) => {
+    sendMessage({
+      type: 'slice-sync',
+      slice
+    })
+  }, [sendMessage])
+
+  const sendSelectionLock = useCallback((selection: LockedSelection | null) => {
+    sendMessage({
+      type: 'selection-lock',
+      selection
+    })
+  }, [sendMessage])
+
+  const sendPresenting = useCallback((presenting: boolean) => {
+    sendMessage({
+      type: 'presenter',
+      presenting
+    })
+  }, [sendMessage])
 
   return {
     isConnected,
@@ -186,7 +368,19 @@ export function usePartyConnection({
     sendColorPick,
     sendCursorLeave,
     sendCameraChange,
-    sendColorChange
+    sendColorChange,
+    sendProfile,
+    sendPresenting,
+    requestHeatmap,
+    sendPinCreate,
+    sendPinRename,
+    sendPinDelete,
+    sendPaletteAdd,
+    sendPaletteMove,
+    sendPaletteRemove,
+    sendImportedColors,
+    sendSlice,
+    sendSelectionLock
   }
 }
 
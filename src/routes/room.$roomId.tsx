@@ -0,0 +1,17 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { ColorPickerApp } from '../components/ColorPickerApp'
+import { normalizeRoomId } from '../shared/rooms'
+
+export const Route = createFileRoute('/room/$roomId')({
+  component: RoomPage,
+})
+
+function RoomPage() {
+  const { roomId } = Route.useParams()
+  const room = normalizeRoomId(roomId)
+
+  // Remount per room so presence state from the previous room doesn't leak in.
+  // The visualizer gives its WebGL context back on unmount, so switching rooms
+  // doesn't run the browser out of them.
+  return <ColorPickerApp key={room} roomId={room} />
+}
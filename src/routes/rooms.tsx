@@ -0,0 +1,6 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { RoomLobby } from '../components/RoomLobby'
+
+export const Route = createFileRoute('/rooms')({
+  component: RoomLobby,
+})
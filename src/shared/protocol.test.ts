@@ -0,0 +1,174 @@
+import { describe, expect, it } from 'vitest'
+import {
+  decodeServerFrame,
+  encodeClientFrame,
+  encodeServerFrame,
+  MAX_MESSAGE_LENGTH,
+  parseClientMessage,
+  ProtocolError,
+  type ClientCursorMoveMessage,
+  type ErrorCode,
+  type CursorState
+} from './protocol'
+
+const move: ClientCursorMoveMessage = {
+  type: 'cursor-move',
+  position: { x: 0.5, y: 0.25, z: -0.5 },
+  normal: { x: 1, y: 0, z: 0 },
+  color: '#ff8000',
+  rgb: { r: 255, g: 128, b: 0 },
+  seq: 65535,
+  sentAt: 4294967295
+}
+
+const cursor: CursorState = { ...move, sessionId: 'abc', color: '#102030' }
+
+function rejection(raw: string | ArrayBuffer): ErrorCode | undefined {
+  try {
+    parseClientMessage(raw)
+  } catch (error) {
+    expect(error).toBeInstanceOf(ProtocolError)
+    return (error as ProtocolError).code
+  }
+  return undefined
+}
+
+function closeTo(actual: number, expected: number) {
+  expect(actual).toBeCloseTo(expected, 4)
+}
+
+describe('cursor-move', () => {
+  it('accepts JSON from clients that send no timing', () => {
+    const { seq, sentAt, ...untimed } = move
+    expect(parseClientMessage(JSON.stringify(untimed))).toEqual(untimed)
+  })
+
+  it('rejects half a timing stamp', () => {
+    const { sentAt, ...halfTimed } = move
+    expect(() => parseClientMessage(JSON.stringify(halfTimed))).toThrow(/seq/)
+  })
+
+  it('decodes the version 1 client frame', () => {
+    // op 1 | x,y,z u16 | face u8 | r,g,b u8, as clients sent before timing was added
+    const view = new DataView(new ArrayBuffer(11))
+    view.setUint8(0, 1)
+    view.setUint16(1, 0xffff, true)
+    view.setUint16(3, 0x8000, true)
+    view.setUint16(5, 0, true)
+    view.setUint8(7, 2)
+    view.setUint8(8, 1)
+    view.setUint8(9, 2)
+    view.setUint8(10, 3)
+
+    const message = parseClientMessage(view.buffer)
+    expect(message).toMatchObject({ type: 'cursor-move', normal: { x: 0, y: 1, z: 0 }, rgb: { r: 1, g: 2, b: 3 }, color: '#010203' })
+    expect(message).not.toHaveProperty('seq')
+  })
+
+  it('round trips a timed move through version 2 frames', () => {
+    const message = parseClientMessage(encodeClientFrame(move)!)
+    expect(message).toMatchObject({ seq: move.seq, sentAt: move.sentAt, rgb: move.rgb })
+    if (message.type !== 'cursor-move') throw new Error(message.type)
+    closeTo(message.position.y, 0.25)
+  })
+
+  it('leaves timing out of version 1 frames', () => {
+    const frame = encodeClientFrame(move, 1)!
+    expect(frame.byteLength).toBe(11)
+    expect(parseClientMessage(frame)).not.toHaveProperty('seq')
+  })
+})
+
+describe('cursor normals', () => {
+  const normals = [
+    { x: 0.6, y: 0.8, z: 0 },
+    { x: -0.48, y: 0.6, z: -0.64 },
+    { x: 0, y: 0, z: -1 },
+    { x: 0, y: -1, z: 0 }
+  ]
+
+  it('survive version 2 frames to within a degree', () => {
+    for (const normal of normals) {
+      const message = parseClientMessage(encodeClientFrame({ ...move, normal })!)
+      if (message.type !== 'cursor-move') throw new Error(message.type)
+      const { x, y, z } = message.normal
+      expect(x * normal.x + y * normal.y + z * normal.z).toBeGreaterThan(Math.cos(Math.PI / 180))
+      closeTo(Math.hypot(x, y, z), 1)
+    }
+  })
+
+  it('come back exact on cube faces', () => {
+    const message = parseClientMessage(encodeClientFrame({ ...move, normal: { x: 0, y: 0, z: -1 } })!)
+    expect(message).toMatchObject({ normal: { x: 0, y: 0, z: -1 } })
+  })
+
+  it('off a cube face have no version 1 frame', () => {
+    expect(encodeClientFrame({ ...move, normal: normals[0] }, 1)).toBeNull()
+    expect(encodeServerFrame({ type: 'cursor-move', ...cursor, normal: normals[0] }, 1)).toBeNull()
+  })
+})
+
+describe('server cursor frames', () => {
+  it('decode in both versions', () => {
+    for (const version of [1, 2]) {
+      const message = decodeServerFrame(encodeServerFrame({ type: 'cursor-batch', cursors: [cursor] }, version)!)
+      if (message.type !== 'cursor-batch') throw new Error(message.type)
+      expect(message.cursors[0]).toMatchObject({ sessionId: 'abc', color: '#102030', rgb: cursor.rgb })
+      expect(message.cursors[0].seq).toBe(version === 2 ? cursor.seq : undefined)
+    }
+  })
+
+  it('fall back to the version 1 layout for untimed cursors', () => {
+    const { seq, sentAt, ...untimed } = cursor
+    const frame = encodeServerFrame({ type: 'cursor-move', ...untimed })!
+    expect(new DataView(frame).getUint8(0)).toBe(1)
+  })
+})
+
+describe('malformed client messages', () => {
+  it('are rejected for an unknown type', () => {
+    expect(rejection(JSON.stringify({ type: 'teleport', position: move.position }))).toBe('unknown-type')
+    expect(rejection(JSON.stringify({ position: move.position }))).toBe('invalid-message')
+  })
+
+  it('are rejected for positions that are not numbers', () => {
+    // JSON has no NaN or Infinity; they arrive as null
+    for (const x of [NaN, Infinity, '0.5', null]) {
+      expect(rejection(JSON.stringify({ ...move, position: { ...move.position, x } }))).toBe('invalid-message')
+    }
+    expect(rejection(JSON.stringify({ ...move, position: [0.5, 0.25, -0.5] }))).toBe('invalid-message')
+  })
+
+  it('are rejected over MAX_MESSAGE_LENGTH', () => {
+    const padded = JSON.stringify({ ...move, color: 'x'.repeat(MAX_MESSAGE_LENGTH) })
+    expect(rejection(padded)).toBe('payload-too-large')
+    expect(rejection(new ArrayBuffer(MAX_MESSAGE_LENGTH + 1))).toBe('invalid-message')
+  })
+
+  it('are rejected for a half-filled identify', () => {
+    expect(rejection(JSON.stringify({ type: 'identify' }))).toBe('invalid-message')
+    expect(rejection(JSON.stringify({ type: 'identify', persistentUserId: 'user-1', binary: 'yes' }))).toBe('invalid-message')
+    expect(rejection(JSON.stringify({ type: 'identify', persistentUserId: 'user-1', binaryVersion: 0 }))).toBe('invalid-message')
+  })
+
+  it('report broken JSON on its own, and let a complete identify through', () => {
+    expect(rejection('{"type": "cursor-move",')).toBe('invalid-json')
+    expect(rejection(JSON.stringify({ type: 'identify', persistentUserId: 'user-1' }))).toBeUndefined()
+  })
+})
+
+describe('identify', () => {
+  it('carries the profile kept in the browser, tidied like user-profile', () => {
+    const message = parseClientMessage(JSON.stringify({
+      type: 'identify',
+      persistentUserId: 'user-1',
+      profile: { displayName: '  Ada   Lovelace ', avatar: '' }
+    }))
+    expect(message).toMatchObject({ profile: { displayName: 'Ada Lovelace', avatar: undefined } })
+  })
+
+  it('rejects a profile the server would not store', () => {
+    expect(rejection(JSON.stringify({ type: 'identify', persistentUserId: 'user-1', profile: { displayName: '<b>' } }))).toBe('invalid-message')
+    expect(rejection(JSON.stringify({ type: 'identify', persistentUserId: 'user-1', profile: 'Ada' }))).toBe('invalid-message')
+  })
+})
@@ -0,0 +1,1221 @@
+import { formatHex } from 'culori'
+
+// Wire protocol shared by party/server.ts, usePartyConnection and the legacy 3d.ts client.
+// Every message is a JSON object discriminated on `type`. Clients that opt in during
+// `identify` also exchange cursor and camera updates as compact binary frames (see below).
+
+export interface Vec3 {
+  x: number
+  y: number
+  z: number
+}
+
+export interface RGB {
+  r: number
+  g: number
+  b: number
+}
+
+export interface CameraState {
+  position: Vec3
+  target: Vec3
+}
+
+// A cut through the color solid: everything further than `offset` along the
+// unit `normal` (from the solid's centre) is cut away, exposing the inside
+export interface SliceState {
+  normal: Vec3
+  offset: number
+}
+
+// A color a user clicked to hold onto. It stays put while their live cursor
+// moves on, and the room sees it as a separate marker.
+export interface LockedSelection {
+  rgb: RGB
+  position: Vec3
+  normal: Vec3
+}
+
+// How a user presents themselves in the roster and next to their cursor
+export interface UserProfile {
+  displayName?: string
+  // A single emoji
+  avatar?: string
+}
+
+// A labelled marker on the cube, stored by the room
+export interface Pin {
+  id: string
+  label: string
+  color: string
+  rgb: RGB
+  position: Vec3
+  normal: Vec3
+  // Display name of whoever dropped it, at the time
+  authorName?: string
+  // Set on pins the receiving user dropped; only they may rename or delete them
+  mine?: boolean
+}
+
+// A color with a human name, as imported from or exported to palette files
+export interface NamedColor {
+  name: string
+  // #rrggbb
+  hex: string
+}
+
+// One color in the room's shared palette
+export interface Swatch {
+  id: string
+  // Always #rrggbb
+  color: string
+  // Display name of whoever added it, at the time
+  addedBy?: string
+}
+
+// Where a new pin goes, as seen by the visualizer
+export type PinPlacement = Pick<Pin, 'color' | 'rgb' | 'position' | 'normal'>
+
+// Client → server
+
+export interface IdentifyMessage {
+  type: 'identify'
+  persistentUserId: string
+  // Client understands binary cursor/camera frames
+  binary?: boolean
+  // Newest frame layout it reads (BINARY_FRAME_VERSION); 1 when missing
+  binaryVersion?: number
+  // Name and avatar this browser remembers. When sent they apply in every room,
+  // in place of whatever the room stored; rooms only fall back on their own copy
+  // for clients that send none.
+  profile?: UserProfile
+}
+
+export interface ClientCursorMoveMessage {
+  type: 'cursor-move'
+  position: Vec3
+  normal: Vec3
+  color: string
+  rgb: RGB
+  // Counts up with every move and wraps at 16 bits, so receivers can drop stale ones.
+  // Older clients send neither this nor sentAt.
+  seq?: number
+  // Sender's clock in whole milliseconds, any origin, wrapping at 32 bits. Receivers
+  // only compare stamps from the same sender, to replay moves with their original spacing.
+  sentAt?: number
+}
+
+export type CursorTiming = Required<Pick<ClientCursorMoveMessage, 'seq' | 'sentAt'>>
+
+export interface ClientCursorLeaveMessage {
+  type: 'cursor-leave'
+}
+
+export interface ClientUserColorChangeMessage {
+  type: 'user-color-change'
+  color: string
+}
+
+export interface ClientCameraSyncMessage {
+  type: 'camera-sync'
+  camera: CameraState
+}
+
+// Presenters share their slice alongside their camera; null removes it
+export interface ClientSliceSyncMessage {
+  type: 'slice-sync'
+  slice: SliceState | null
+}
+
+// Lock a selection (or release it with null)
+export interface ClientSelectionLockMessage {
+  type: 'selection-lock'
+  selection: LockedSelection | null
+}
+
+// Opt in or out of broadcasting this client's camera to followers
+export interface ClientPresenterMessage {
+  type: 'presenter'
+  presenting: boolean
+}
+
+// Set (or clear, by omitting a field) this user's display name and avatar
+export interface ClientUserProfileMessage extends UserProfile {
+  type: 'user-profile'
+}
+
+// Ask for the room's hover heatmap; the server answers with a `heatmap` message
+export interface ClientHeatmapRequestMessage {
+  type: 'heatmap-request'
+}
+
+// The server derives the pin's color from rgb
+export interface ClientPinCreateMessage {
+  type: 'pin-create'
+  label: string
+  rgb: RGB
+  position: Vec3
+  normal: Vec3
+}
+
+export interface ClientPinRenameMessage {
+  type: 'pin-rename'
+  id: string
+  label: string
+}
+
+export interface ClientPinDeleteMessage {
+  type: 'pin-delete'
+  id: string
+}
+
+// Palette edits are intents, applied one at a time against the server's current order,
+// so two people reordering at once both get their move
+export interface ClientPaletteAddMessage {
+  type: 'palette-add'
+  color: string
+}
+
+export interface ClientPaletteMoveMessage {
+  type: 'palette-move'
+  id: string
+  // Swatch to place it after, or null for the front
+  afterId: string | null
+}
+
+export interface ClientPaletteRemoveMessage {
+  type: 'palette-remove'
+  id: string
+}
+
+// Share an imported palette with the room (or stop sharing with an empty list)
+export interface ClientImportedColorsMessage {
+  type: 'imported-colors'
+  colors: NamedColor[]
+}
+
+export type ClientMessage =
+  | IdentifyMessage
+  | ClientImportedColorsMessage
+  | ClientPaletteAddMessage
+  | ClientPaletteMoveMessage
+  | ClientPaletteRemoveMessage
+  | ClientPinCreateMessage
+  | ClientPinRenameMessage
+  | ClientPinDeleteMessage
+  | ClientUserProfileMessage
+  | ClientHeatmapRequestMessage
+  | ClientPresenterMessage
+  | ClientSliceSyncMessage
+  | ClientSelectionLockMessage
+  | ClientCursorMoveMessage
+  | ClientCursorLeaveMessage
+  | ClientUserColorChangeMessage
+  | ClientCameraSyncMessage
+
+// Server → client
+
+export interface UserJoinedMessage extends UserProfile {
+  type: 'user-joined'
+  sessionId: string
+  color: string
+}
+
+// A returning user (same persistentUserId) reconnected; replaces previousSessionId in place
+export interface UserResumedMessage extends UserProfile {
+  type: 'user-resumed'
+  sessionId: string
+  previousSessionId?: string
+  color: string
+}
+
+export interface UserProfileMessage extends UserProfile {
+  type: 'user-profile'
+  sessionId: string
+}
+
+export interface UserIdentifiedMessage {
+  type: 'user-identified'
+  sessionId: string
+  // Server will send binary cursor/camera frames and accept them from this client
+  binary?: boolean
+  // Frame layout both sides use, the older of the two; 1 when missing
+  binaryVersion?: number
+}
+
+export interface CursorMoveMessage {
+  type: 'cursor-move'
+  sessionId: string
+  position: Vec3
+  normal: Vec3
+  color: string
+  rgb?: RGB
+  // As sent by the user; missing when the server replays a stored position
+  seq?: number
+  sentAt?: number
+}
+
+export type CursorState = Omit<CursorMoveMessage, 'type'>
+
+// Latest cursor of every session that moved since the previous server tick
+export interface CursorBatchMessage {
+  type: 'cursor-batch'
+  cursors: CursorState[]
+}
+
+export interface CursorLeaveMessage {
+  type: 'cursor-leave'
+  sessionId: string
+}
+
+export interface UserDisconnectMessage {
+  type: 'user-disconnect'
+  sessionId: string
+}
+
+export interface UserColorChangeMessage {
+  type: 'user-color-change'
+  sessionId: string
+  color: string
+}
+
+// Camera of a presenting session; clients only apply it when following that session
+export interface CameraSyncMessage {
+  type: 'camera-sync'
+  sessionId: string
+  camera: CameraState
+}
+
+// Slice of a presenting session; clients only apply it when following that session
+export interface SliceSyncMessage {
+  type: 'slice-sync'
+  sessionId: string
+  slice: SliceState | null
+}
+
+export interface SelectionLockMessage {
+  type: 'selection-lock'
+  sessionId: string
+  selection: LockedSelection | null
+}
+
+export interface PresenterChangeMessage {
+  type: 'presenter-change'
+  sessionId: string
+  presenting: boolean
+  // Presenter's last known camera, so new followers can jump straight to it
+  camera?: CameraState
+  slice?: SliceState
+}
+
+// Hover counts per voxel of the RGB cube; cells nobody has visited are left out
+export interface HeatmapMessage {
+  type: 'heatmap'
+  resolution: number
+  // [cell index (see heatmapCellIndex), hover count] pairs
+  cells: [number, number][]
+}
+
+export type HeatmapState = Omit<HeatmapMessage, 'type'>
+
+// Every pin in the room, sent once the session is announced
+export interface PinListMessage {
+  type: 'pin-list'
+  pins: Pin[]
+}
+
+// A pin was dropped or renamed
+export interface PinUpsertMessage {
+  type: 'pin-upsert'
+  pin: Pin
+}
+
+export interface PinDeleteMessage {
+  type: 'pin-delete'
+  id: string
+}
+
+// The whole shared palette in order, sent on join and after every edit
+export interface PaletteMessage {
+  type: 'palette'
+  swatches: Swatch[]
+}
+
+// The palette someone shared for everyone to see plotted inside the cube
+export interface ImportedColorsMessage {
+  type: 'imported-colors'
+  colors: NamedColor[]
+  // Display label of whoever shared it
+  sharedBy?: string
+}
+
+export interface UserCountMessage {
+  type: 'user-count'
+  count: number
+}
+
+export type ErrorCode =
+  | 'invalid-json'
+  | 'invalid-message'
+  | 'unknown-type'
+  | 'payload-too-large'
+  | 'rate-limited'
+  | 'not-allowed'
+  | 'not-found'
+  | 'limit-reached'
+
+export interface ErrorMessage {
+  type: 'error'
+  code: ErrorCode
+  message: string
+}
+
+export type ServerMessage =
+  | UserJoinedMessage
+  | UserResumedMessage
+  | UserProfileMessage
+  | UserIdentifiedMessage
+  | CursorMoveMessage
+  | CursorBatchMessage
+  | CursorLeaveMessage
+  | UserDisconnectMessage
+  | UserColorChangeMessage
+  | CameraSyncMessage
+  | PresenterChangeMessage
+  | SliceSyncMessage
+  | SelectionLockMessage
+  | UserCountMessage
+  | HeatmapMessage
+  | PinListMessage
+  | PinUpsertMessage
+  | PinDeleteMessage
+  | PaletteMessage
+  | ImportedColorsMessage
+  | ErrorMessage
+
+// Anything larger than this can't be a legitimate message
+export const MAX_MESSAGE_LENGTH = 4096
+
+const MAX_ID_LENGTH = 128
+const MAX_COLOR_LENGTH = 64
+export const MAX_DISPLAY_NAME_LENGTH = 32
+export const MAX_PIN_LABEL_LENGTH = 40
+// Keeps a shared import well inside MAX_MESSAGE_LENGTH
+export const MAX_SHARED_IMPORT_COLORS = 48
+export const MAX_COLOR_NAME_LENGTH = 32
+// Half the cube's diagonal: a plane any further out doesn't touch it
+export const MAX_SLICE_OFFSET = 0.87
+// Room for ZWJ sequences and skin tone modifiers
+const MAX_AVATAR_LENGTH = 16
+
+export class ProtocolError extends Error {
+  code: ErrorCode
+
+  constructor(code: ErrorCode, message: string) {
+    super(message)
+    this.name = 'ProtocolError'
+    this.code = code
+  }
+}
+
+export function encodeMessage(message: ClientMessage | ServerMessage): string {
+  return JSON.stringify(message)
+}
+
+// Heatmap grid
+
+// Voxels per axis; 32³ is fine enough to show structure and small enough to ship whole
+export const HEATMAP_RESOLUTION = 32
+
+// Cell index with red varying fastest, matching the layout of a 3D texture
+export function heatmapCellIndex(rgb: RGB, resolution = HEATMAP_RESOLUTION): number {
+  const cell = (channel: number) => Math.min(resolution - 1, Math.floor(channel / 256 * resolution))
+  return cell(rgb.r) + resolution * (cell(rgb.g) + resolution * cell(rgb.b))
+}
+
+// Validators
+
+type Payload = Record<string, unknown>
+
+function isObject(value: unknown): value is Payload {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value)
+}
+
+export function isVec3(value: unknown): value is Vec3 {
+  return isObject(value) && isFiniteNumber(value.x) && isFiniteNumber(value.y) && isFiniteNumber(value.z)
+}
+
+export function isRGB(value: unknown): value is RGB {
+  const isChannel = (n: unknown) => Number.isInteger(n) && (n as number) >= 0 && (n as number) <= 255
+  return isObject(value) && isChannel(value.r) && isChannel(value.g) && isChannel(value.b)
+}
+
+function isCursorTiming(value: Payload): value is Payload & CursorTiming {
+  const isUint = (n: unknown, max: number) => Number.isInteger(n) && (n as number) >= 0 && (n as number) <= max
+  return isUint(value.seq, 0xffff) && isUint(value.sentAt, 0xffffffff)
+}
+
+// Moves from older clients carry no timing at all, but never half of it
+function isOptionalCursorTiming(value: Payload): boolean {
+  return value.seq === undefined && value.sentAt === undefined || isCursorTiming(value)
+}
+
+function isFrameVersion(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 1
+}
+
+export function isCameraState(value: unknown): value is CameraState {
+  return isObject(value) && isVec3(value.position) && isVec3(value.target)
+}
+
+export function isSliceState(value: unknown): value is SliceState {
+  if (!isObject(value) || !isVec3(value.normal) || !isFiniteNumber(value.offset)) return false
+  const { x, y, z } = value.normal
+  return Math.abs(Math.hypot(x, y, z) - 1) < 0.01 && Math.abs(value.offset) <= MAX_SLICE_OFFSET
+}
+
+export function isLockedSelection(value: unknown): value is LockedSelection {
+  return isObject(value) && isRGB(value.rgb) && isVec3(value.position) && isVec3(value.normal)
+}
+
+function isShortString(value: unknown, maxLength: number): value is string {
+  return typeof value === 'string' && value.length > 0 && value.length <= maxLength
+}
+
+function isColor(value: unknown): value is string {
+  // Accept hex and CSS color functions like hsl(...) but nothing that could carry markup
+  return isShortString(value, MAX_COLOR_LENGTH) && /^[#a-z0-9(),.%\s-]+$/i.test(value)
+}
+
+function isDisplayName(value: unknown): value is string {
+  // Letters and numbers in any script, plus spaces and a little punctuation
+  return isShortString(value, MAX_DISPLAY_NAME_LENGTH) && /^[\p{L}\p{M}\p{N}][\p{L}\p{M}\p{N} '._-]*$/u.test(value)
+}
+
+function isAvatar(value: unknown): value is string {
+  return isShortString(value, MAX_AVATAR_LENGTH) &&
+    /\p{Extended_Pictographic}|\p{Regional_Indicator}/u.test(value) &&
+    /^(?:\p{Extended_Pictographic}|\p{Emoji_Modifier}|\p{Regional_Indicator}|\u200d|\ufe0f)+$/u.test(value)
+}
+
+function isLabel(value: unknown, maxLength: number): value is string {
+  // Free text, but no control or invisible formatting characters
+  return isShortString(value, maxLength) && value.trim() === value && /^[^\p{C}]+$/u.test(value)
+}
+
+function isPinLabel(value: unknown): value is string {
+  return isLabel(value, MAX_PIN_LABEL_LENGTH)
+}
+
+function isHex(value: unknown): value is string {
+  return typeof value === 'string' && /^#[0-9a-f]{6}$/.test(value)
+}
+
+function isNamedColor(value: unknown): value is NamedColor {
+  return isObject(value) && isLabel(value.name, MAX_COLOR_NAME_LENGTH) && isHex(value.hex)
+}
+
+function isPin(value: unknown): value is Pin {
+  return isObject(value) &&
+    isShortString(value.id, MAX_ID_LENGTH) &&
+    isPinLabel(value.label) &&
+    isColor(value.color) &&
+    isRGB(value.rgb) &&
+    isVec3(value.position) &&
+    isVec3(value.normal) &&
+    (value.authorName === undefined || isDisplayName(value.authorName)) &&
+    (value.mine === undefined || typeof value.mine === 'boolean')
+}
+
+function isSwatch(value: unknown): value is Swatch {
+  return isObject(value) &&
+    isShortString(value.id, MAX_ID_LENGTH) &&
+    isHex(value.color) &&
+    (value.addedBy === undefined || isDisplayName(value.addedBy))
+}
+
+function hasValidProfile(data: Payload): boolean {
+  return (data.displayName === undefined || isDisplayName(data.displayName)) &&
+    (data.avatar === undefined || isAvatar(data.avatar))
+}
+
+export function isUserProfile(value: unknown): value is UserProfile {
+  return isObject(value) && hasValidProfile(value)
+}
+
+// Blank fields clear the name or avatar; names are trimmed and inner whitespace collapsed
+function parseProfile(type: string, data: Payload): UserProfile {
+  const displayName = typeof data.displayName === 'string' ? data.displayName.trim().replace(/\s+/g, ' ') : data.displayName
+  const avatar = typeof data.avatar === 'string' ? data.avatar.trim() : data.avatar
+  if (displayName !== undefined && displayName !== '' && !isDisplayName(displayName)) {
+    invalid(type, `displayName must be up to ${MAX_DISPLAY_NAME_LENGTH} letters, numbers, spaces or . _ - '`)
+  }
+  if (avatar !== undefined && avatar !== '' && !isAvatar(avatar)) invalid(type, 'avatar must be a single emoji')
+  return { displayName: displayName || undefined, avatar: avatar || undefined }
+}
+
+function parsePayload(raw: string, maxLength = MAX_MESSAGE_LENGTH): Payload {
+  if (raw.length > maxLength) {
+    throw new ProtocolError('payload-too-large', `Messages are limited to ${MAX_MESSAGE_LENGTH} characters`)
+  }
+
+  let data: unknown
+  try {
+    data = JSON.parse(raw)
+  } catch {
+    throw new ProtocolError('invalid-json', 'Message is not valid JSON')
+  }
+
+  if (!isObject(data) || typeof data.type !== 'string') {
+    throw new ProtocolError('invalid-message', 'Message must be an object with a string type')
+  }
+  return data
+}
+
+function invalid(type: string, reason: string): never {
+  throw new ProtocolError('invalid-message', `Invalid ${type} message: ${reason}`)
+}
+
+export function parseClientMessage(raw: string | ArrayBuffer): ClientMessage {
+  if (typeof raw !== 'string') return decodeClientFrame(raw)
+  const data = parsePayload(raw)
+
+  switch (data.type) {
+    case 'identify':
+      if (!isShortString(data.persistentUserId, MAX_ID_LENGTH)) invalid(data.type, 'persistentUserId must be a string')
+      if (data.binary !== undefined && typeof data.binary !== 'boolean') invalid(data.type, 'binary must be a boolean')
+      if (data.binaryVersion !== undefined && !isFrameVersion(data.binaryVersion)) invalid(data.type, 'binaryVersion must be a positive integer')
+      if (data.profile !== undefined && !isObject(data.profile)) invalid(data.type, 'profile must be an object')
+      return {
+        type: 'identify',
+        persistentUserId: data.persistentUserId,
+        binary: data.binary === true,
+        binaryVersion: data.binaryVersion,
+        profile: data.profile === undefined ? undefined : parseProfile(data.type, data.profile)
+      }
+
+    case 'user-profile':
+      return { type: 'user-profile', ...parseProfile(data.type, data) }
+
+    case 'cursor-move':
+      if (!isVec3(data.position)) invalid(data.type, 'position must be a numeric vector')
+      if (!isVec3(data.normal)) invalid(data.type, 'normal must be a numeric vector')
+      if (!isColor(data.color)) invalid(data.type, 'color must be a CSS color')
+      if (!isRGB(data.rgb)) invalid(data.type, 'rgb channels must be integers from 0 to 255')
+      if (!isOptionalCursorTiming(data)) invalid(data.type, 'seq must be a 16-bit and sentAt a 32-bit unsigned integer')
+      return {
+        type: 'cursor-move',
+        position: data.position,
+        normal: data.normal,
+        color: data.color,
+        rgb: data.rgb,
+        ...cursorTiming(data)
+      }
+
+    case 'cursor-leave':
+      return { type: 'cursor-leave' }
+
+    case 'user-color-change':
+      if (!isColor(data.color)) invalid(data.type, 'color must be a CSS color')
+      return { type: 'user-color-change', color: data.color }
+
+    case 'camera-sync':
+      if (!isCameraState(data.camera)) invalid(data.type, 'camera must have numeric position and target')
+      return { type: 'camera-sync', camera: data.camera }
+
+    case 'presenter':
+      if (typeof data.presenting !== 'boolean') invalid(data.type, 'presenting must be a boolean')
+      return { type: 'presenter', presenting: data.presenting }
+
+    case 'slice-sync':
+      if (data.slice !== null && !isSliceState(data.slice)) {
+        invalid(data.type, `slice must be null or a unit normal with an offset up to ${MAX_SLICE_OFFSET}`)
+      }
+      return { type: 'slice-sync', slice: data.slice }
+
+    case 'selection-lock':
+      if (data.selection !== null && !isLockedSelection(data.selection)) {
+        invalid(data.type, 'selection must be null or rgb with a position and normal')
+      }
+      return {
+        type: 'selection-lock',
+        selection: data.selection && { rgb: data.selection.rgb, position: data.selection.position, normal: data.selection.normal }
+      }
+
+    case 'heatmap-request':
+      return { type: 'heatmap-request' }
+
+    case 'pin-create': {
+      const label = typeof data.label === 'string' ? data.label.trim() : data.label
+      if (!isPinLabel(label)) invalid(data.type, `label must be 1 to ${MAX_PIN_LABEL_LENGTH} printable characters`)
+      if (!isRGB(data.rgb)) invalid(data.type, 'rgb channels must be integers from 0 to 255')
+      if (!isVec3(data.position)) invalid(data.type, 'position must be a numeric vector')
+      if (!isVec3(data.normal)) invalid(data.type, 'normal must be a numeric vector')
+      return { type: 'pin-create', label, rgb: data.rgb, position: data.position, normal: data.normal }
+    }
+
+    case 'pin-rename': {
+      const label = typeof data.label === 'string' ? data.label.trim() : data.label
+      if (!isShortString(data.id, MAX_ID_LENGTH)) invalid(data.type, 'id must be a string')
+      if (!isPinLabel(label)) invalid(data.type, `label must be 1 to ${MAX_PIN_LABEL_LENGTH} printable characters`)
+      return { type: 'pin-rename', id: data.id, label }
+    }
+
+    case 'pin-delete':
+      if (!isShortString(data.id, MAX_ID_LENGTH)) invalid(data.type, 'id must be a string')
+      return { type: 'pin-delete', id: data.id }
+
+    case 'imported-colors':
+      if (!Array.isArray(data.colors) || data.colors.length > MAX_SHARED_IMPORT_COLORS || !data.colors.every(isNamedColor)) {
+        invalid(data.type, `colors must be up to ${MAX_SHARED_IMPORT_COLORS} names (${MAX_COLOR_NAME_LENGTH} characters or fewer) with #rrggbb values`)
+      }
+      return { type: 'imported-colors', colors: data.colors.map(({ name, hex }) => ({ name, hex })) }
+
+    case 'palette-add': {
+      const color = isColor(data.color) ? formatHex(data.color) : undefined
+      if (!color) invalid(data.type, 'color must be a CSS color')
+      return { type: 'palette-add', color }
+    }
+
+    case 'palette-move':
+      if (!isShortString(data.id, MAX_ID_LENGTH)) invalid(data.type, 'id must be a string')
+      if (data.afterId !== null && !isShortString(data.afterId, MAX_ID_LENGTH)) invalid(data.type, 'afterId must be a string or null')
+      return { type: 'palette-move', id: data.id, afterId: data.afterId }
+
+    case 'palette-remove':
+      if (!isShortString(data.id, MAX_ID_LENGTH)) invalid(data.type, 'id must be a string')
+      return { type: 'palette-remove', id: data.id }
+
+    default:
+      throw new ProtocolError('unknown-type', `Unknown message type: ${data.type}`)
+  }
+}
+
+function isCursorState(value: unknown): value is CursorState {
+  return isObject(value) &&
+    isShortString(value.sessionId, MAX_ID_LENGTH) &&
+    isVec3(value.position) &&
+    isVec3(value.normal) &&
+    isColor(value.color) &&
+    isOptionalCursorTiming(value)
+}
+
+export function parseServerMessage(raw: string | ArrayBuffer): ServerMessage {
+  if (typeof raw !== 'string') return decodeServerFrame(raw)
+  // Server messages are trusted to be well-sized; batches grow with the room
+  const data = parsePayload(raw, Infinity)
+  const hasSession = isShortString(data.sessionId, MAX_ID_LENGTH)
+
+  switch (data.type) {
+    case 'user-joined':
+      if (!hasSession || !isColor(data.color)) invalid(data.type, 'expected sessionId and color')
+      if (!hasValidProfile(data)) invalid(data.type, 'expected displayName and avatar')
+      break
+    case 'user-color-change':
+      if (!hasSession || !isColor(data.color)) invalid(data.type, 'expected sessionId and color')
+      break
+    case 'user-profile':
+      if (!hasSession || !hasValidProfile(data)) invalid(data.type, 'expected sessionId, displayName and avatar')
+      break
+    case 'user-resumed':
+      if (!hasSession || !isColor(data.color)) invalid(data.type, 'expected sessionId and color')
+      if (!hasValidProfile(data)) invalid(data.type, 'expected displayName and avatar')
+      if (data.previousSessionId !== undefined && !isShortString(data.previousSessionId, MAX_ID_LENGTH)) {
+        invalid(data.type, 'expected previousSessionId')
+      }
+      break
+    case 'user-identified':
+      if (!hasSession) invalid(data.type, 'expected sessionId')
+      if (data.binaryVersion !== undefined && !isFrameVersion(data.binaryVersion)) invalid(data.type, 'expected binaryVersion')
+      break
+    case 'cursor-leave':
+    case 'user-disconnect':
+      if (!hasSession) invalid(data.type, 'expected sessionId')
+      break
+    case 'cursor-move':
+      if (!isCursorState(data)) invalid(data.type, 'expected sessionId, position, normal and color')
+      break
+    case 'cursor-batch':
+      if (!Array.isArray(data.cursors) || !data.cursors.every(isCursorState)) invalid(data.type, 'expected cursors')
+      break
+    case 'camera-sync':
+      if (!hasSession || !isCameraState(data.camera)) invalid(data.type, 'expected sessionId and camera')
+      break
+    case 'presenter-change':
+      if (!hasSession || typeof data.presenting !== 'boolean') invalid(data.type, 'expected sessionId and presenting')
+      if (data.camera !== undefined && !isCameraState(data.camera)) invalid(data.type, 'expected camera')
+      if (data.slice !== undefined && !isSliceState(data.slice)) invalid(data.type, 'expected slice')
+      break
+    case 'slice-sync':
+      if (!hasSession || (data.slice !== null && !isSliceState(data.slice))) invalid(data.type, 'expected sessionId and slice')
+      break
+    case 'selection-lock':
+      if (!hasSession || (data.selection !== null && !isLockedSelection(data.selection))) invalid(data.type, 'expected sessionId and selection')
+      break
+    case 'user-count':
+      if (!isFiniteNumber(data.count)) invalid(data.type, 'expected count')
+      break
+    case 'pin-list':
+      if (!Array.isArray(data.pins) || !data.pins.every(isPin)) invalid(data.type, 'expected pins')
+      break
+    case 'pin-upsert':
+      if (!isPin(data.pin)) invalid(data.type, 'expected pin')
+      break
+    case 'pin-delete':
+      if (!isShortString(data.id, MAX_ID_LENGTH)) invalid(data.type, 'expected id')
+      break
+    case 'imported-colors':
+      if (!Array.isArray(data.colors) || !data.colors.every(isNamedColor)) invalid(data.type, 'expected colors')
+      if (data.sharedBy !== undefined && typeof data.sharedBy !== 'string') invalid(data.type, 'expected sharedBy')
+      break
+    case 'palette':
+      if (!Array.isArray(data.swatches) || !data.swatches.every(isSwatch)) invalid(data.type, 'expected swatches')
+      break
+    case 'heatmap': {
+      const resolution = data.resolution
+      const isCell = (cell: unknown) => Array.isArray(cell) && cell.length === 2 &&
+        Number.isInteger(cell[0]) && cell[0] >= 0 && cell[0] < (resolution as number) ** 3 &&
+        Number.isInteger(cell[1]) && cell[1] > 0
+      if (!Number.isInteger(resolution) || (resolution as number) < 1 || (resolution as number) > 128) {
+        invalid(data.type, 'expected resolution')
+      }
+      if (!Array.isArray(data.cells) || !data.cells.every(isCell)) invalid(data.type, 'expected cells')
+      break
+    }
+    case 'error':
+      if (typeof data.message !== 'string') invalid(data.type, 'expected message')
+      break
+    default:
+      throw new ProtocolError('unknown-type', `Unknown message type: ${data.type}`)
+  }
+
+  return data as unknown as ServerMessage
+}
+
+// Binary framing
+//
+// Cursor and camera updates are the bulk of the traffic, so clients that negotiated
+// `binary` send and receive them as little-endian ArrayBuffer frames. Each side
+// also names the newest layout it reads (`binaryVersion` in identify and
+// user-identified) and both use the older of the two, so clients and servers from
+// before a layout change keep working. Every layout is still decoded.
+//
+//   cursor-move (client → server): op u8 | cursor
+//   cursor-move (server → client): op u8 | user cursor
+//   cursor-batch (server → client): op u8 | count u16 | user cursor × count
+//     where user cursor = idLength u8 | id utf8 | cursor | user r,g,b u8
+//   camera-sync (client → server): op u8 | camera
+//   camera-sync (server → client): op u8 | camera | idLength u8 | id utf8
+//     where camera = position x,y,z f32 | target x,y,z f32
+//
+// Version 1 cursors go in ops 1 (move) and 3 (batch):
+//     cursor = x,y,z u16 | face u8 | r,g,b u8
+// Version 2 adds the sender's timing and the exact surface normal, in ops 4 (move)
+// and 5 (batch):
+//     cursor = seq u16 | sentAt u32 | x,y,z u16 | normal u,v i8 | r,g,b u8
+// Untimed cursors (older senders, replayed positions) still go out in version 1 ops.
+//
+// Positions are quantized to 16 bits over [-POSITION_EXTENT, POSITION_EXTENT]. Version
+// 1 sends the normal as an index into FACE_NORMALS (BoxGeometry's face order), so it
+// only carries cursors on a cube face; any other surface falls back to JSON. Version 2
+// octahedral-encodes it (see encodeNormal).
+
+export const BINARY_FRAME_VERSION = 2
+
+const CURSOR_FRAME_OP = 1
+const CAMERA_FRAME_OP = 2
+const CURSOR_BATCH_FRAME_OP = 3
+const TIMED_CURSOR_FRAME_OP = 4
+const TIMED_CURSOR_BATCH_FRAME_OP = 5
+
+const POSITION_EXTENT = 1
+const POSITION_STEPS = 0xffff
+
+const CURSOR_LENGTH = 6 + 1 + 3
+const TIMED_CURSOR_LENGTH = 2 + 4 + 6 + 2 + 3
+const CAMERA_FRAME_LENGTH = 1 + 24
+
+export const FACE_NORMALS: readonly Vec3[] = [
+  { x: 1, y: 0, z: 0 },
+  { x: -1, y: 0, z: 0 },
+  { x: 0, y: 1, z: 0 },
+  { x: 0, y: -1, z: 0 },
+  { x: 0, y: 0, z: 1 },
+  { x: 0, y: 0, z: -1 }
+]
+
+// Normals off the cube's faces (other solids, slice caps) don't fit version 1 frames
+function isFaceNormal(normal: Vec3): boolean {
+  const length = Math.hypot(normal.x, normal.y, normal.z)
+  return Math.max(Math.abs(normal.x), Math.abs(normal.y), Math.abs(normal.z)) > 0.999 * length
+}
+
+export function normalToFaceIndex(normal: Vec3): number {
+  // Pick the dominant axis; cube normals are always axis aligned
+  const ax = Math.abs(normal.x)
+  const ay = Math.abs(normal.y)
+  const az = Math.abs(normal.z)
+  if (ax >= ay && ax >= az) return normal.x >= 0 ? 0 : 1
+  if (ay >= az) return normal.y >= 0 ? 2 : 3
+  return normal.z >= 0 ? 4 : 5
+}
+
+function quantize(value: number): number {
+  const clamped = Math.max(-POSITION_EXTENT, Math.min(POSITION_EXTENT, value))
+  return Math.round(((clamped + POSITION_EXTENT) / (2 * POSITION_EXTENT)) * POSITION_STEPS)
+}
+
+function dequantize(value: number): number {
+  return (value / POSITION_STEPS) * 2 * POSITION_EXTENT - POSITION_EXTENT
+}
+
+// Project the unit normal onto the octahedron |x| + |y| + |z| = 1, fold the lower
+// half out over the upper, and keep x and y as signed bytes: under a degree of error,
+// and axis-aligned normals come back exactly
+function encodeNormal({ x, y, z }: Vec3): [number, number] {
+  const sum = Math.abs(x) + Math.abs(y) + Math.abs(z) || 1
+  let u = x / sum
+  let v = y / sum
+  if (z < 0) {
+    const foldedU = (1 - Math.abs(v)) * (u >= 0 ? 1 : -1)
+    v = (1 - Math.abs(u)) * (v >= 0 ? 1 : -1)
+    u = foldedU
+  }
+  return [Math.round(u * 127), Math.round(v * 127)]
+}
+
+function decodeNormal(encodedU: number, encodedV: number): Vec3 {
+  const u = Math.max(-1, encodedU / 127)
+  const v = Math.max(-1, encodedV / 127)
+  const z = 1 - Math.abs(u) - Math.abs(v)
+  const fold = Math.max(-z, 0)
+  const x = u + (u >= 0 ? -fold : fold)
+  const y = v + (v >= 0 ? -fold : fold)
+  const length = Math.hypot(x, y, z)
+  return { x: x / length, y: y / length, z: z / length }
+}
+
+// Stamps one sender's outgoing cursor moves
+export function createCursorClock(): () => CursorTiming {
+  let seq = 0
+  return () => {
+    seq = (seq + 1) & 0xffff
+    return { seq, sentAt: Math.floor(performance.now()) >>> 0 }
+  }
+}
+
+export function rgbToHex({ r, g, b }: RGB): string {
+  return `#${[r, g, b].map(n => n.toString(16).padStart(2, '0')).join('')}`
+}
+
+// "#rrggbb" or shorthand "#rgb"
+export function hexToRGB(hex: string): RGB {
+  const digits = hex.replace(/^#/, '')
+  const value = parseInt(digits.length === 3 ? digits.replace(/./g, '$&$&') : digits, 16)
+  return { r: (value >> 16) & 0xff, g: (value >> 8) & 0xff, b: value & 0xff }
+}
+
+// Any CSS color, or null if it isn't one
+export function colorToRGB(color: string): RGB | null {
+  const hex = formatHex(color)
+  return hex ? hexToRGB(hex) : null
+}
+
+type CursorSample = Partial<CursorTiming> & { position: Vec3; normal: Vec3; rgb: RGB }
+
+// Both halves of a cursor's timing, or nothing if it came without
+function cursorTiming({ seq, sentAt }: Partial<CursorTiming>): CursorTiming | undefined {
+  return seq !== undefined && sentAt !== undefined ? { seq, sentAt } : undefined
+}
+
+// Which frame version a cursor is written in: 2 (timed) when the receiver reads it
+// and the cursor has timing, otherwise 1 if it is on a cube face. Null if neither fits.
+function cursorVersion(cursor: CursorSample, version: number): 1 | 2 | null {
+  if (version >= 2 && cursorTiming(cursor)) return 2
+  return isFaceNormal(cursor.normal) ? 1 : null
+}
+
+function cursorLength(version: 1 | 2): number {
+  return version === 2 ? TIMED_CURSOR_LENGTH : CURSOR_LENGTH
+}
+
+function writeCursor(view: DataView, offset: number, cursor: CursorSample, version: 1 | 2): number {
+  if (version === 1) {
+    view.setUint16(offset, quantize(cursor.position.x), true)
+    view.setUint16(offset + 2, quantize(cursor.position.y), true)
+    view.setUint16(offset + 4, quantize(cursor.position.z), true)
+    view.setUint8(offset + 6, normalToFaceIndex(cursor.normal))
+    view.setUint8(offset + 7, cursor.rgb.r)
+    view.setUint8(offset + 8, cursor.rgb.g)
+    view.setUint8(offset + 9, cursor.rgb.b)
+    return offset + CURSOR_LENGTH
+  }
+
+  const [normalU, normalV] = encodeNormal(cursor.normal)
+  view.setUint16(offset, cursor.seq ?? 0, true)
+  view.setUint32(offset + 2, cursor.sentAt ?? 0, true)
+  view.setUint16(offset + 6, quantize(cursor.position.x), true)
+  view.setUint16(offset + 8, quantize(cursor.position.y), true)
+  view.setUint16(offset + 10, quantize(cursor.position.z), true)
+  view.setInt8(offset + 12, normalU)
+  view.setInt8(offset + 13, normalV)
+  view.setUint8(offset + 14, cursor.rgb.r)
+  view.setUint8(offset + 15, cursor.rgb.g)
+  view.setUint8(offset + 16, cursor.rgb.b)
+  return offset + TIMED_CURSOR_LENGTH
+}
+
+function readCursor(view: DataView, offset: number, version: 1 | 2): CursorSample {
+  if (version === 2) {
+    return {
+      seq: view.getUint16(offset, true),
+      sentAt: view.getUint32(offset + 2, true),
+      position: {
+        x: dequantize(view.getUint16(offset + 6, true)),
+        y: dequantize(view.getUint16(offset + 8, true)),
+        z: dequantize(view.getUint16(offset + 10, true))
+      },
+      normal: decodeNormal(view.getInt8(offset + 12), view.getInt8(offset + 13)),
+      rgb: {
+        r: view.getUint8(offset + 14),
+        g: view.getUint8(offset + 15),
+        b: view.getUint8(offset + 16)
+      }
+    }
+  }
+
+  const face = view.getUint8(offset + 6)
+  if (face >= FACE_NORMALS.length) {
+    throw new ProtocolError('invalid-message', `Invalid cursor frame: unknown face ${face}`)
+  }
+  return {
+    position: {
+      x: dequantize(view.getUint16(offset, true)),
+      y: dequantize(view.getUint16(offset + 2, true)),
+      z: dequantize(view.getUint16(offset + 4, true))
+    },
+    normal: { ...FACE_NORMALS[face] },
+    rgb: {
+      r: view.getUint8(offset + 7),
+      g: view.getUint8(offset + 8),
+      b: view.getUint8(offset + 9)
+    }
+  }
+}
+
+function encodeCamera(camera: CameraState, sessionId?: string): ArrayBuffer | null {
+  const id = new TextEncoder().encode(sessionId ?? '')
+  if (id.length > 0xff) return null
+
+  const buffer = new ArrayBuffer(CAMERA_FRAME_LENGTH + (sessionId ? 1 + id.length : 0))
+  const view = new DataView(buffer)
+  view.setUint8(0, CAMERA_FRAME_OP)
+  const values = [camera.position.x, camera.position.y, camera.position.z, camera.target.x, camera.target.y, camera.target.z]
+  values.forEach((value, i) => view.setFloat32(1 + i * 4, value, true))
+  if (sessionId) {
+    view.setUint8(CAMERA_FRAME_LENGTH, id.length)
+    new Uint8Array(buffer, CAMERA_FRAME_LENGTH + 1).set(id)
+  }
+  return buffer
+}
+
+function readCamera(view: DataView): CameraState {
+  if (view.byteLength < CAMERA_FRAME_LENGTH) {
+    throw new ProtocolError('invalid-message', 'Invalid camera frame length')
+  }
+  const values = Array.from({ length: 6 }, (_, i) => view.getFloat32(1 + i * 4, true))
+  if (!values.every(Number.isFinite)) {
+    throw new ProtocolError('invalid-message', 'Invalid camera frame: non-finite value')
+  }
+  return {
+    position: { x: values[0], y: values[1], z: values[2] },
+    target: { x: values[3], y: values[4], z: values[5] }
+  }
+}
+
+function frameView(buffer: ArrayBuffer): DataView {
+  if (buffer.byteLength === 0 || buffer.byteLength > MAX_MESSAGE_LENGTH) {
+    throw new ProtocolError('invalid-message', 'Invalid frame length')
+  }
+  return new DataView(buffer)
+}
+
+// `version` is the layout negotiated with the server, see BINARY_FRAME_VERSION
+export function encodeClientFrame(message: ClientMessage, version = BINARY_FRAME_VERSION): ArrayBuffer | null {
+  switch (message.type) {
+    case 'cursor-move': {
+      const cursorFrameVersion = cursorVersion(message, version)
+      if (!cursorFrameVersion) return null
+      const buffer = new ArrayBuffer(1 + cursorLength(cursorFrameVersion))
+      const view = new DataView(buffer)
+      view.setUint8(0, cursorFrameVersion === 2 ? TIMED_CURSOR_FRAME_OP : CURSOR_FRAME_OP)
+      writeCursor(view, 1, message, cursorFrameVersion)
+      return buffer
+    }
+    case 'camera-sync':
+      return encodeCamera(message.camera)
+    default:
+      return null
+  }
+}
+
+export function decodeClientFrame(buffer: ArrayBuffer): ClientMessage {
+  const view = frameView(buffer)
+  const op = view.getUint8(0)
+
+  switch (op) {
+    case CURSOR_FRAME_OP:
+    case TIMED_CURSOR_FRAME_OP: {
+      const cursorFrameVersion = op === TIMED_CURSOR_FRAME_OP ? 2 : 1
+      if (view.byteLength !== 1 + cursorLength(cursorFrameVersion)) {
+        throw new ProtocolError('invalid-message', 'Invalid cursor frame length')
+      }
+      const cursor = readCursor(view, 1, cursorFrameVersion)
+      return { type: 'cursor-move', ...cursor, color: rgbToHex(cursor.rgb) }
+    }
+    case CAMERA_FRAME_OP:
+      if (view.byteLength !== CAMERA_FRAME_LENGTH) {
+        throw new ProtocolError('invalid-message', 'Invalid camera frame length')
+      }
+      return { type: 'camera-sync', camera: readCamera(view) }
+    default:
+      throw new ProtocolError('unknown-type', `Unknown frame op: ${op}`)
+  }
+}
+
+function packServerCursors(cursors: CursorState[], version: 1 | 2): { bytes: Uint8Array[]; length: number } | null {
+  const encoder = new TextEncoder()
+  const bytes: Uint8Array[] = []
+  let length = 0
+
+  for (const cursor of cursors) {
+    const userRGB = colorToRGB(cursor.color)
+    const id = encoder.encode(cursor.sessionId)
+    // Replayed positions have no rgb to pack
+    const { rgb } = cursor
+    if (!rgb || !userRGB || id.length === 0 || id.length > 0xff) return null
+
+    const entry = new Uint8Array(1 + id.length + cursorLength(version) + 3)
+    const view = new DataView(entry.buffer)
+    view.setUint8(0, id.length)
+    entry.set(id, 1)
+    const offset = writeCursor(view, 1 + id.length, { ...cursor, rgb }, version)
+    view.setUint8(offset, userRGB.r)
+    view.setUint8(offset + 1, userRGB.g)
+    view.setUint8(offset + 2, userRGB.b)
+
+    bytes.push(entry)
+    length += entry.length
+  }
+
+  return { bytes, length }
+}
+
+function unpackServerCursor(view: DataView, offset: number, version: 1 | 2): { cursor: CursorState; next: number } {
+  const idLength = offset < view.byteLength ? view.getUint8(offset) : 0
+  if (idLength === 0 || offset + 1 + idLength + cursorLength(version) + 3 > view.byteLength) {
+    throw new ProtocolError('invalid-message', 'Invalid cursor frame length')
+  }
+
+  const sessionId = new TextDecoder().decode(new Uint8Array(view.buffer, view.byteOffset + offset + 1, idLength))
+  const cursorOffset = offset + 1 + idLength
+  const userOffset = cursorOffset + cursorLength(version)
+  const color = rgbToHex({
+    r: view.getUint8(userOffset),
+    g: view.getUint8(userOffset + 1),
+    b: view.getUint8(userOffset + 2)
+  })
+
+  return {
+    cursor: { sessionId, ...readCursor(view, cursorOffset, version), color },
+    next: userOffset + 3
+  }
+}
+
+// Returns null when the message has no binary form (or can't be packed), so callers
+// fall back to JSON. `version` is the layout the receiving client negotiated.
+export function encodeServerFrame(message: ServerMessage, version = BINARY_FRAME_VERSION): ArrayBuffer | null {
+  switch (message.type) {
+    case 'cursor-move':
+    case 'cursor-batch': {
+      const isBatch = message.type === 'cursor-batch'
+      const cursors = isBatch ? message.cursors : [message]
+      // One layout for the whole frame: version 2 when every cursor is timed, else
+      // version 1, which only fits cursors on a cube face
+      const timed = version >= 2 && cursors.every(cursor => cursorTiming(cursor) !== undefined)
+      if (!timed && !cursors.every(cursor => isFaceNormal(cursor.normal))) return null
+      const packed = packServerCursors(cursors, timed ? 2 : 1)
+      if (!packed || cursors.length > 0xffff) return null
+
+      const headerLength = isBatch ? 3 : 1
+      const frame = new Uint8Array(headerLength + packed.length)
+      const view = new DataView(frame.buffer)
+      if (isBatch) {
+        view.setUint8(0, timed ? TIMED_CURSOR_BATCH_FRAME_OP : CURSOR_BATCH_FRAME_OP)
+        view.setUint16(1, cursors.length, true)
+      } else {
+        view.setUint8(0, timed ? TIMED_CURSOR_FRAME_OP : CURSOR_FRAME_OP)
+      }
+
+      let offset = headerLength
+      for (const entry of packed.bytes) {
+        frame.set(entry, offset)
+        offset += entry.length
+      }
+      return frame.buffer
+    }
+    case 'camera-sync':
+      return encodeCamera(message.camera, message.sessionId)
+    default:
+      return null
+  }
+}
+
+export function decodeServerFrame(buffer: ArrayBuffer): ServerMessage {
+  if (buffer.byteLength === 0) {
+    throw new ProtocolError('invalid-message', 'Invalid frame length')
+  }
+  const view = new DataView(buffer)
+  const op = view.getUint8(0)
+
+  switch (op) {
+    case CURSOR_FRAME_OP:
+    case TIMED_CURSOR_FRAME_OP: {
+      const { cursor, next } = unpackServerCursor(view, 1, op === TIMED_CURSOR_FRAME_OP ? 2 : 1)
+      if (next !== view.byteLength) {
+        throw new ProtocolError('invalid-message', 'Invalid cursor frame length')
+      }
+      return { type: 'cursor-move', ...cursor }
+    }
+    case CURSOR_BATCH_FRAME_OP:
+    case TIMED_CURSOR_BATCH_FRAME_OP: {
+      if (view.byteLength < 3) {
+        throw new ProtocolError('invalid-message', 'Invalid cursor batch frame length')
+      }
+      const count = view.getUint16(1, true)
+      const cursors: CursorState[] = []
+      let offset = 3
+      for (let i = 0; i < count; i++) {
+        const { cursor, next } = unpackServerCursor(view, offset, op === TIMED_CURSOR_BATCH_FRAME_OP ? 2 : 1)
+        cursors.push(cursor)
+        offset = next
+      }
+      return { type: 'cursor-batch', cursors }
+    }
+    case CAMERA_FRAME_OP: {
+      const camera = readCamera(view)
+      const idLength = view.byteLength > CAMERA_FRAME_LENGTH ? view.getUint8(CAMERA_FRAME_LENGTH) : 0
+      if (idLength === 0 || view.byteLength !== CAMERA_FRAME_LENGTH + 1 + idLength) {
+        throw new ProtocolError('invalid-message', 'Invalid camera frame length')
+      }
+      const sessionId = new TextDecoder().decode(new Uint8Array(buffer, CAMERA_FRAME_LENGTH + 1, idLength))
+      return { type: 'camera-sync', sessionId, camera }
+    }
+    default:
+      throw new ProtocolError('unknown-type', `Unknown frame op: ${op}`)
+  }
+}
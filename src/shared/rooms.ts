@@ -0,0 +1,29 @@
+// Room naming shared by the worker, the Durable Objects and the client
+
+export const DEFAULT_ROOM = 'color-picker'
+
+// Private rooms are only reachable by link, so the lobby never lists them
+export const PRIVATE_ROOM_PREFIX = 'private-'
+
+const MAX_ROOM_ID_LENGTH = 64
+
+export function normalizeRoomId(roomId: string): string {
+  // Keep room ids URL and storage friendly: lowercase letters, digits and dashes
+  return roomId
+    .toLowerCase()
+    .replace(/[^a-z0-9-]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, MAX_ROOM_ID_LENGTH) || DEFAULT_ROOM
+}
+
+export function isPrivateRoom(roomId: string): boolean {
+  return roomId.startsWith(PRIVATE_ROOM_PREFIX)
+}
+
+export function createPrivateRoomId(): string {
+  return `${PRIVATE_ROOM_PREFIX}${crypto.randomUUID().replace(/-/g, '').slice(0, 12)}`
+}
+
+export function getRoomPath(roomId: string): string {
+  return roomId === DEFAULT_ROOM ? '/' : `/room/${roomId}`
+}
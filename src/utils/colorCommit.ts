@@ -0,0 +1,48 @@
+// Decides when a hovered color becomes the user's identity color: straight away on an
+// explicit commit (click, Enter), or once the pointer has rested on the same color.
+
+export const DWELL_COMMIT_MS = 1500
+
+export interface ColorCommitter {
+  hover: (color: string) => void
+  leave: () => void
+  commit: () => void
+  dispose: () => void
+}
+
+export function createColorCommitter(onCommit: (color: string) => void, dwellMs = DWELL_COMMIT_MS): ColorCommitter {
+  let hovered: string | null = null
+  let committed: string | null = null
+  let dwellTimer: ReturnType<typeof setTimeout> | null = null
+
+  const clearDwell = () => {
+    if (dwellTimer) {
+      clearTimeout(dwellTimer)
+      dwellTimer = null
+    }
+  }
+
+  const commit = () => {
+    clearDwell()
+    if (hovered && hovered !== committed) {
+      committed = hovered
+      onCommit(hovered)
+    }
+  }
+
+  return {
+    hover(color: string) {
+      // Moving within the same color keeps the dwell running
+      if (color === hovered) return
+      hovered = color
+      clearDwell()
+      dwellTimer = setTimeout(commit, dwellMs)
+    },
+    leave() {
+      hovered = null
+      clearDwell()
+    },
+    commit,
+    dispose: clearDwell
+  }
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest'
+import type { RGB } from '../shared/protocol'
+import { formatColor, isColorFormatId, type ColorFormatId } from './colorFormats'
+
+const black: RGB = { r: 0, g: 0, b: 0 }
+const gray: RGB = { r: 128, g: 128, b: 128 }
+const white: RGB = { r: 255, g: 255, b: 255 }
+const red: RGB = { r: 255, g: 0, b: 0 }
+
+describe('formatColor', () => {
+  it.each<[ColorFormatId, RGB, string]>([
+    ['hex', red, '#FF0000'],
+    ['rgb', gray, 'rgb(128, 128, 128)'],
+    // Black has no ink to split between C, M and Y
+    ['cmyk', black, 'cmyk(0%, 0%, 0%, 100%)'],
+    ['cmyk', white, 'cmyk(0%, 0%, 0%, 0%)'],
+    ['cmyk', red, 'cmyk(0%, 100%, 100%, 0%)'],
+    // Grays have no hue, written as 0
+    ['hsl', gray, 'hsl(0, 0%, 50%)'],
+    ['hsv', white, 'hsv(0, 0%, 100%)'],
+    ['hwb', gray, 'hwb(0 50% 50%)'],
+    ['oklch', gray, 'oklch(60% 0 0)'],
+    ['oklch', red, 'oklch(62.8% 0.258 29.2)'],
+    ['lab', gray, 'lab(53.59 0 0)'],
+    ['srgb', gray, 'color(srgb 0.502 0.502 0.502)'],
+    ['p3', black, 'color(display-p3 0 0 0)']
+  ])('writes %s for %o as %s', (id, rgb, expected) => {
+    expect(formatColor(rgb, id)).toBe(expected)
+  })
+
+  it('never writes -0 for a gray', () => {
+    for (let value = 0; value <= 255; value += 5) {
+      for (const id of ['hsl', 'hsv', 'hwb', 'oklch', 'lab', 'p3'] as const) {
+        expect(formatColor({ r: value, g: value, b: value }, id)).not.toMatch(/-0(?![.\d])/)
+      }
+    }
+  })
+})
+
+describe('isColorFormatId', () => {
+  it.each([
+    ['hex', true],
+    ['oklch', true],
+    ['HEX', false],
+    ['', false],
+    [null, false],
+    [undefined, false]
+  ])('takes %o as %s', (value, expected) => {
+    expect(isColorFormatId(value)).toBe(expected)
+  })
+})
@@ -0,0 +1,136 @@
+import { converter, type Color } from 'culori'
+import { rgbToHex, type RGB } from '../shared/protocol'
+
+// Every way the readout can write a color, all from the same 8-bit sRGB value.
+// Each string is ready to paste: CSS syntax wherever CSS has one, and the usual
+// function-style notation for HSV and CMYK, which it doesn't.
+
+export type ColorFormatId = 'hex' | 'rgb' | 'hsl' | 'hsv' | 'hwb' | 'oklch' | 'lab' | 'cmyk' | 'srgb' | 'p3'
+
+export interface ColorFormat {
+  id: ColorFormatId
+  label: string
+  format: (rgb: RGB) => string
+}
+
+const toHsl = converter('hsl')
+const toHsv = converter('hsv')
+const toHwb = converter('hwb')
+const toOklch = converter('oklch')
+const toLab = converter('lab')
+const toP3 = converter('p3')
+
+function toColor({ r, g, b }: RGB): Color {
+  return { mode: 'rgb', r: r / 255, g: g / 255, b: b / 255 }
+}
+
+// Fixed decimals without trailing zeros, so 50.00 reads as 50
+function round(value: number, digits: number): string {
+  const rounded = Number(value.toFixed(digits))
+  return String(Object.is(rounded, -0) ? 0 : rounded)
+}
+
+function percent(value: number, digits = 0): string {
+  return `${round(value * 100, digits)}%`
+}
+
+// Grays have no hue; write 0 rather than CSS's `none`, which fewer tools accept
+function hue(value: number | undefined, digits = 0): string {
+  return round(value ?? 0, digits)
+}
+
+// Naive conversion straight from sRGB, with no ink profile behind it
+function toCmyk({ r, g, b }: RGB): [number, number, number, number] {
+  const k = 1 - Math.max(r, g, b) / 255
+  if (k === 1) return [0, 0, 0, 1]
+  const ink = (channel: number) => (1 - channel / 255 - k) / (1 - k)
+  return [ink(r), ink(g), ink(b), k]
+}
+
+export const COLOR_FORMATS: ColorFormat[] = [
+  {
+    id: 'hex',
+    label: 'Hex',
+    format: rgb => rgbToHex(rgb).toUpperCase()
+  },
+  {
+    id: 'rgb',
+    label: 'RGB',
+    format: ({ r, g, b }) => `rgb(${r}, ${g}, ${b})`
+  },
+  {
+    id: 'hsl',
+    label: 'HSL',
+    format: rgb => {
+      const { h, s, l } = toHsl(toColor(rgb))
+      return `hsl(${hue(h)}, ${percent(s)}, ${percent(l)})`
+    }
+  },
+  {
+    id: 'hsv',
+    label: 'HSV',
+    format: rgb => {
+      const { h, s, v } = toHsv(toColor(rgb))
+      return `hsv(${hue(h)}, ${percent(s)}, ${percent(v)})`
+    }
+  },
+  {
+    id: 'hwb',
+    label: 'HWB',
+    format: rgb => {
+      const { h, w, b } = toHwb(toColor(rgb))
+      return `hwb(${hue(h)} ${percent(w)} ${percent(b)})`
+    }
+  },
+  {
+    id: 'oklch',
+    label: 'OKLCH',
+    format: rgb => {
+      const { l, c, h } = toOklch(toColor(rgb))
+      return `oklch(${percent(l, 1)} ${round(c, 3)} ${hue(c < 1e-4 ? undefined : h, 1)})`
+    }
+  },
+  {
+    id: 'lab',
+    label: 'CIELAB',
+    format: rgb => {
+      const { l, a, b } = toLab(toColor(rgb))
+      return `lab(${round(l, 2)} ${round(a, 2)} ${round(b, 2)})`
+    }
+  },
+  {
+    id: 'cmyk',
+    label: 'CMYK',
+    format: rgb => `cmyk(${toCmyk(rgb).map(value => percent(value)).join(', ')})`
+  },
+  {
+    id: 'srgb',
+    label: 'color() sRGB',
+    format: ({ r, g, b }) => `color(srgb ${[r, g, b].map(channel => round(channel / 255, 4)).join(' ')})`
+  },
+  {
+    id: 'p3',
+    label: 'color() P3',
+    format: rgb => {
+      const { r, g, b } = toP3(toColor(rgb))
+      return `color(display-p3 ${[r, g, b].map(channel => round(channel, 4)).join(' ')})`
+    }
+  }
+]
+
+export function getColorFormat(id: ColorFormatId): ColorFormat {
+  return COLOR_FORMATS.find(format => format.id === id) ?? COLOR_FORMATS[0]
+}
+
+export function isColorFormatId(value: unknown): value is ColorFormatId {
+  return COLOR_FORMATS.some(format => format.id === value)
+}
+
+export function formatColor(rgb: RGB, id: ColorFormatId): string {
+  return getColorFormat(id).format(rgb)
+}
+
+// Black or white, whichever reads better on top of the color
+export function readableTextColor({ r, g, b }: RGB): 'black' | 'white' {
+  return r + g + b > 384 ? 'black' : 'white'
+}
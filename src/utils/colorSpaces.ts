@@ -0,0 +1,301 @@
+import * as THREE from 'three'
+import { clampChroma, converter, type Color } from 'culori'
+import type { RGB, Vec3 } from '../shared/protocol'
+
+// Color solids the visualizer can show. Each one knows how to build its mesh and
+// how to map between points in (or on) it and sRGB colors, so hovering, remote
+// cursors and everything plotted inside work the same way in every solid. The
+// mapping exists twice, in TypeScript for picking and in GLSL for drawing (see
+// solidMaterial.ts); the two must agree or the readout won't match the pixels.
+
+export type ColorSpaceId = 'rgb' | 'hsv' | 'hsl' | 'oklab' | 'oklch'
+
+export interface ColorSpace {
+  id: ColorSpaceId
+  label: string
+  // Mesh centred on the origin, roughly within the unit cube
+  createGeometry: () => THREE.BufferGeometry
+  positionToColor: (point: Vec3) => RGB
+  // GLSL defining `vec3 positionToColor(vec3 point)`, returning sRGB channels in 0–1
+  shader: string
+  colorToPosition: (rgb: RGB) => THREE.Vector3
+  // Whether a point lies inside the solid, e.g. on a slice's cap
+  contains: (point: Vec3) => boolean
+}
+
+const toRgb = converter('rgb')
+const toHsv = converter('hsv')
+const toHsl = converter('hsl')
+const toOklab = converter('oklab')
+const toOklch = converter('oklch')
+
+// Cylindrical solids wrap hue around the vertical axis
+const RADIUS = 0.5
+const LATHE_SEGMENTS = 64
+
+// OKLab's a and b span roughly ±0.3, so stretch them to fill the view like the cube does
+const OKLAB_SCALE = 1.6
+
+// Slack for points on the tessellated surface, which sits slightly inside the true one
+const CONTAINS_EPSILON = 0.005
+
+// Higher than any sRGB color's OKLCH chroma; clampChroma brings it into gamut
+const OKLCH_CHROMA_CEILING = 0.4
+
+function clampUnit(value: number): number {
+  return Math.max(0, Math.min(1, value))
+}
+
+function fromColor(color: Color): RGB {
+  const { r, g, b } = toRgb(color)
+  return {
+    r: Math.round(clampUnit(r) * 255),
+    g: Math.round(clampUnit(g) * 255),
+    b: Math.round(clampUnit(b) * 255)
+  }
+}
+
+function toColor({ r, g, b }: RGB): Color {
+  return { mode: 'rgb', r: r / 255, g: g / 255, b: b / 255 }
+}
+
+function hueOf({ x, z }: Vec3): number {
+  return (THREE.MathUtils.radToDeg(Math.atan2(z, x)) + 360) % 360
+}
+
+function polar(hue: number | undefined, radius: number, y: number): THREE.Vector3 {
+  const angle = THREE.MathUtils.degToRad(hue ?? 0)
+  return new THREE.Vector3(Math.cos(angle) * radius, y, Math.sin(angle) * radius)
+}
+
+// Spin a profile of [radius, y] corners round the vertical axis
+function createLathe(corners: [number, number][]): THREE.LatheGeometry {
+  return new THREE.LatheGeometry(corners.map(([radius, y]) => new THREE.Vector2(radius, y)), LATHE_SEGMENTS)
+}
+
+function insideCylinder({ x, y, z }: Vec3): boolean {
+  return Math.hypot(x, z) <= RADIUS + CONTAINS_EPSILON && Math.abs(y) <= 0.5 + CONTAINS_EPSILON
+}
+
+function maxOklchChroma(l: number, h: number): number {
+  return clampChroma({ mode: 'oklch', l, c: OKLCH_CHROMA_CEILING, h }, 'oklch').c
+}
+
+// GLSL helpers shared by the solids' shaders, mirroring the culori conversions above
+const hueShader = /* glsl */ `
+  // Hue as a fraction of a turn, 0 for red, like hueOf()
+  float hueOf(vec3 point) {
+    return length(point.xz) > 0.0 ? fract(atan(point.z, point.x) / 6.283185307179586 + 1.0) : 0.0;
+  }
+
+  vec3 hueToRgb(float hue) {
+    return clamp(abs(fract(hue + vec3(1.0, 2.0 / 3.0, 1.0 / 3.0)) * 6.0 - 3.0) - 1.0, 0.0, 1.0);
+  }
+`
+
+const oklabShader = /* glsl */ `
+  vec3 oklabToLinearRgb(vec3 lab) {
+    vec3 lms = vec3(
+      lab.x + 0.3963377773761749 * lab.y + 0.2158037573099136 * lab.z,
+      lab.x - 0.1055613458156586 * lab.y - 0.0638541728258133 * lab.z,
+      lab.x - 0.0894841775298119 * lab.y - 1.2914855480194092 * lab.z
+    );
+    lms = lms * lms * lms;
+    return vec3(
+      4.0767416360759574 * lms.x - 3.3077115392580616 * lms.y + 0.2309699031821044 * lms.z,
+      -1.2684379732850317 * lms.x + 2.6097573492876887 * lms.y - 0.3413193760026573 * lms.z,
+      -0.0041960761386756 * lms.x - 0.7034186179359362 * lms.y + 1.7076146940746117 * lms.z
+    );
+  }
+
+  vec3 oklabToRgb(vec3 lab) {
+    return sRGBTransferOETF(vec4(clamp(oklabToLinearRgb(lab), 0.0, 1.0), 1.0)).rgb;
+  }
+`
+
+const rgbCube: ColorSpace = {
+  id: 'rgb',
+  label: 'RGB cube',
+  createGeometry: () => new THREE.BoxGeometry(1, 1, 1),
+  positionToColor: ({ x, y, z }) => ({
+    r: Math.round(clampUnit(x + 0.5) * 255),
+    g: Math.round(clampUnit(y + 0.5) * 255),
+    b: Math.round(clampUnit(z + 0.5) * 255)
+  }),
+  shader: /* glsl */ `
+    vec3 positionToColor(vec3 point) {
+      return clamp(point + 0.5, 0.0, 1.0);
+    }
+  `,
+  colorToPosition: ({ r, g, b }) => new THREE.Vector3(r / 255 - 0.5, g / 255 - 0.5, b / 255 - 0.5),
+  contains: ({ x, y, z }) => Math.max(Math.abs(x), Math.abs(y), Math.abs(z)) <= 0.5 + CONTAINS_EPSILON
+}
+
+// Hue around, saturation out from the axis, value up
+const hsvCylinder: ColorSpace = {
+  id: 'hsv',
+  label: 'HSV cylinder',
+  createGeometry: () => createLathe([[0, -0.5], [RADIUS, -0.5], [RADIUS, 0.5], [0, 0.5]]),
+  positionToColor: point => fromColor({
+    mode: 'hsv',
+    h: hueOf(point),
+    s: clampUnit(Math.hypot(point.x, point.z) / RADIUS),
+    v: clampUnit(point.y + 0.5)
+  }),
+  shader: /* glsl */ `
+    ${hueShader}
+
+    vec3 positionToColor(vec3 point) {
+      float s = clamp(length(point.xz) / ${RADIUS.toFixed(1)}, 0.0, 1.0);
+      float v = clamp(point.y + 0.5, 0.0, 1.0);
+      return v * mix(vec3(1.0), hueToRgb(hueOf(point)), s);
+    }
+  `,
+  colorToPosition: rgb => {
+    const { h, s, v } = toHsv(toColor(rgb))
+    return polar(h, s * RADIUS, v - 0.5)
+  },
+  contains: insideCylinder
+}
+
+// Hue around, lightness up; fully saturated colors on the widest ring
+const hslBicone: ColorSpace = {
+  id: 'hsl',
+  label: 'HSL double cone',
+  createGeometry: () => createLathe([[0, -0.5], [RADIUS, 0], [0, 0.5]]),
+  positionToColor: point => {
+    const l = clampUnit(point.y + 0.5)
+    const maxRadius = RADIUS * (1 - Math.abs(2 * l - 1))
+    return fromColor({
+      mode: 'hsl',
+      h: hueOf(point),
+      s: maxRadius > 0 ? clampUnit(Math.hypot(point.x, point.z) / maxRadius) : 0,
+      l
+    })
+  },
+  shader: /* glsl */ `
+    ${hueShader}
+
+    vec3 positionToColor(vec3 point) {
+      float l = clamp(point.y + 0.5, 0.0, 1.0);
+      float maxRadius = ${RADIUS.toFixed(1)} * (1.0 - abs(2.0 * l - 1.0));
+      float s = maxRadius > 0.0 ? clamp(length(point.xz) / maxRadius, 0.0, 1.0) : 0.0;
+      return l + s * (hueToRgb(hueOf(point)) - 0.5) * (1.0 - abs(2.0 * l - 1.0));
+    }
+  `,
+  colorToPosition: rgb => {
+    const { h, s, l } = toHsl(toColor(rgb))
+    return polar(h, s * RADIUS * (1 - Math.abs(2 * l - 1)), l - 0.5)
+  },
+  contains: point => {
+    const l = point.y + 0.5
+    return l >= -CONTAINS_EPSILON && l <= 1 + CONTAINS_EPSILON &&
+      Math.hypot(point.x, point.z) <= RADIUS * (1 - Math.abs(2 * l - 1)) + CONTAINS_EPSILON
+  }
+}
+
+// The sRGB gamut as it sits in OKLab: the cube's surface, bent into place
+const oklabSolid: ColorSpace = {
+  id: 'oklab',
+  label: 'OKLab solid',
+  createGeometry: () => {
+    const geometry = new THREE.BoxGeometry(1, 1, 1, 24, 24, 24)
+    const positions = geometry.attributes.position
+    const point = new THREE.Vector3()
+
+    for (let i = 0; i < positions.count; i++) {
+      point.fromBufferAttribute(positions, i)
+      positions.setXYZ(i, ...oklabSolid.colorToPosition(rgbCube.positionToColor(point)).toArray())
+    }
+
+    geometry.computeBoundingSphere()
+    return geometry
+  },
+  positionToColor: ({ x, y, z }) => fromColor({ mode: 'oklab', l: clampUnit(y + 0.5), a: x / OKLAB_SCALE, b: z / OKLAB_SCALE }),
+  shader: /* glsl */ `
+    ${oklabShader}
+
+    vec3 positionToColor(vec3 point) {
+      return oklabToRgb(vec3(clamp(point.y + 0.5, 0.0, 1.0), point.xz / ${OKLAB_SCALE.toFixed(1)}));
+    }
+  `,
+  colorToPosition: rgb => {
+    const { l, a, b } = toOklab(toColor(rgb))
+    return new THREE.Vector3(a * OKLAB_SCALE, l - 0.5, b * OKLAB_SCALE)
+  },
+  // In gamut means the unclamped sRGB channels all fit
+  contains: ({ x, y, z }) => {
+    const { r, g, b } = toRgb({ mode: 'oklab', l: y + 0.5, a: x / OKLAB_SCALE, b: z / OKLAB_SCALE })
+    return [r, g, b].every(channel => channel >= -CONTAINS_EPSILON && channel <= 1 + CONTAINS_EPSILON)
+  }
+}
+
+// Hue around, lightness up, and chroma out from the axis as a fraction of the
+// most sRGB can show at that hue and lightness, which keeps the solid a cylinder
+const oklchCylinder: ColorSpace = {
+  id: 'oklch',
+  label: 'OKLCH cylinder',
+  createGeometry: () => createLathe([[0, -0.5], [RADIUS, -0.5], [RADIUS, 0.5], [0, 0.5]]),
+  positionToColor: point => {
+    const l = clampUnit(point.y + 0.5)
+    const h = hueOf(point)
+    const relativeChroma = clampUnit(Math.hypot(point.x, point.z) / RADIUS)
+    return fromColor({ mode: 'oklch', l, c: relativeChroma * maxOklchChroma(l, h), h })
+  },
+  // Bisects for the most chroma sRGB can show the same way clampChroma does
+  shader: /* glsl */ `
+    ${oklabShader}
+
+    bool isDisplayable(vec3 lab) {
+      vec3 rgb = oklabToLinearRgb(lab);
+      return all(greaterThanEqual(rgb, vec3(-1e-5))) && all(lessThanEqual(rgb, vec3(1.0 + 1e-5)));
+    }
+
+    vec3 positionToColor(vec3 point) {
+      float l = clamp(point.y + 0.5, 0.0, 1.0);
+      float radius = length(point.xz);
+      vec2 hue = radius > 0.0 ? point.xz / radius : vec2(1.0, 0.0);
+
+      float low = 0.0;
+      float high = ${OKLCH_CHROMA_CEILING.toFixed(1)};
+      for (int i = 0; i < 13; i++) {
+        float chroma = (low + high) * 0.5;
+        if (isDisplayable(vec3(l, hue * chroma))) low = chroma;
+        else high = chroma;
+      }
+
+      float relativeChroma = clamp(radius / ${RADIUS.toFixed(1)}, 0.0, 1.0);
+      return oklabToRgb(vec3(l, hue * relativeChroma * low));
+    }
+  `,
+  colorToPosition: rgb => {
+    const { l, c, h } = toOklch(toColor(rgb))
+    const maxChroma = maxOklchChroma(l, h ?? 0)
+    return polar(h, maxChroma > 0 ? clampUnit(c / maxChroma) * RADIUS : 0, l - 0.5)
+  },
+  contains: insideCylinder
+}
+
+export const COLOR_SPACES: ColorSpace[] = [rgbCube, hsvCylinder, hslBicone, oklabSolid, oklchCylinder]
+
+export function getColorSpace(id: ColorSpaceId): ColorSpace {
+  return COLOR_SPACES.find(space => space.id === id) ?? rgbCube
+}
+
+// Where to draw something another user placed by pointing at `position`. If that
+// point still has the same color in `space` they were looking at the same solid
+// and it stays put; otherwise it moves to wherever its color sits here, facing
+// out from the axis.
+export function resolvePlacement(space: ColorSpace, position: Vec3, normal: Vec3, rgb: RGB): { position: THREE.Vector3; normal: THREE.Vector3 } {
+  const here = space.positionToColor(position)
+  if (Math.abs(here.r - rgb.r) <= 2 && Math.abs(here.g - rgb.g) <= 2 && Math.abs(here.b - rgb.b) <= 2) {
+    return {
+      position: new THREE.Vector3(position.x, position.y, position.z),
+      normal: new THREE.Vector3(normal.x, normal.y, normal.z).normalize()
+    }
+  }
+
+  const relocated = space.colorToPosition(rgb)
+  const outward = relocated.lengthSq() > 1e-6 ? relocated.clone().normalize() : new THREE.Vector3(0, 1, 0)
+  return { position: relocated, normal: outward }
+}
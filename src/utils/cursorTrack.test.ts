@@ -0,0 +1,115 @@
+import * as THREE from 'three'
+import { describe, expect, it } from 'vitest'
+import { createCursorTrack, isNewerSeq, PLAYOUT_DELAY_MS, type CursorPoint } from './cursorTrack'
+
+function point(position: [number, number, number], normal: [number, number, number]): CursorPoint {
+  return { position: new THREE.Vector3(...position), normal: new THREE.Vector3(...normal) }
+}
+
+function sampleAt(track: ReturnType<typeof createCursorTrack>, now: number): CursorPoint {
+  const target = point([0, 0, 0], [0, 0, 1])
+  expect(track.sample(now, target)).toBe(true)
+  return target
+}
+
+function expectAt(actual: CursorPoint, position: [number, number, number], normal?: [number, number, number]) {
+  actual.position.toArray().forEach((value, i) => expect(value).toBeCloseTo(position[i], 6))
+  if (normal) actual.normal.toArray().forEach((value, i) => expect(value).toBeCloseTo(normal[i], 6))
+}
+
+const onRight = (y: number) => point([0.5, y, 0], [1, 0, 0])
+
+describe('isNewerSeq', () => {
+  it('counts on across the 16-bit wrap', () => {
+    expect(isNewerSeq(1, 0)).toBe(true)
+    expect(isNewerSeq(0, 0xffff)).toBe(true)
+    expect(isNewerSeq(2, 0xfffe)).toBe(true)
+  })
+
+  it('takes repeats and anything half the range behind as old', () => {
+    expect(isNewerSeq(5, 5)).toBe(false)
+    expect(isNewerSeq(0xffff, 0)).toBe(false)
+    expect(isNewerSeq(0x8000, 0)).toBe(false)
+  })
+})
+
+describe('cursor track', () => {
+  it('has nothing to draw before the first move', () => {
+    expect(createCursorTrack().sample(0, point([0, 0, 0], [0, 0, 1]))).toBe(false)
+  })
+
+  it('drops repeated and out-of-order moves, also across the seq wrap', () => {
+    const track = createCursorTrack()
+    expect(track.push(onRight(0), { seq: 0xfffe, sentAt: 0 }, 0)).toBe(true)
+    expect(track.push(onRight(0.1), { seq: 0xffff, sentAt: 10 }, 10)).toBe(true)
+    expect(track.push(onRight(0.2), { seq: 0, sentAt: 20 }, 20)).toBe(true)
+    expect(track.push(onRight(0.4), { seq: 0xffff, sentAt: 10 }, 25)).toBe(false)
+    expect(track.push(onRight(0.4), { seq: 0, sentAt: 20 }, 25)).toBe(false)
+
+    // The late move left no mark on where the cursor goes
+    expectAt(sampleAt(track, 20 + PLAYOUT_DELAY_MS), [0.5, 0.2, 0])
+  })
+
+  it('holds each move back by the playout delay', () => {
+    const track = createCursorTrack()
+    track.push(onRight(0), { seq: 1, sentAt: 1000 }, 5000)
+    track.push(onRight(0.2), { seq: 2, sentAt: 1050 }, 5050)
+
+    expectAt(sampleAt(track, 5050), [0.5, 0, 0])
+    expectAt(sampleAt(track, 5025 + PLAYOUT_DELAY_MS), [0.5, 0.1, 0])
+    expectAt(sampleAt(track, 5050 + PLAYOUT_DELAY_MS), [0.5, 0.2, 0])
+  })
+
+  it('keeps time across the 32-bit sentAt wrap', () => {
+    const track = createCursorTrack()
+    track.push(onRight(0), { seq: 1, sentAt: 0xffffffff - 10 }, 1000)
+    // 51 ms later on the sender's clock, which wrapped past zero in between
+    track.push(onRight(0.2), { seq: 2, sentAt: 40 }, 1051)
+
+    expectAt(sampleAt(track, 1025.5 + PLAYOUT_DELAY_MS), [0.5, 0.1, 0])
+    expect(track.isMoving(1051 + PLAYOUT_DELAY_MS)).toBe(true)
+  })
+
+  it('coasts on past the newest move, then settles back onto it', () => {
+    const track = createCursorTrack()
+    track.push(onRight(0), { seq: 1, sentAt: 0 }, 0)
+    track.push(onRight(0.1), { seq: 2, sentAt: 50 }, 50)
+
+    // 40 ms past the last move at the speed between the two
+    expectAt(sampleAt(track, 90 + PLAYOUT_DELAY_MS), [0.5, 0.18, 0], [1, 0, 0])
+    expectAt(sampleAt(track, 500 + PLAYOUT_DELAY_MS), [0.5, 0.1, 0], [1, 0, 0])
+    expect(track.isMoving(500 + PLAYOUT_DELAY_MS)).toBe(false)
+  })
+
+  it('never coasts off the face it is on', () => {
+    const track = createCursorTrack()
+    track.push(onRight(0.3), { seq: 1, sentAt: 0 }, 0)
+    track.push(onRight(0.45), { seq: 2, sentAt: 50 }, 50)
+
+    expectAt(sampleAt(track, 120 + PLAYOUT_DELAY_MS), [0.5, 0.5, 0], [1, 0, 0])
+  })
+
+  it('crosses a cube edge over the surface instead of through the cube', () => {
+    const track = createCursorTrack()
+    track.push(point([0.5, 0, 0], [1, 0, 0]), { seq: 1, sentAt: 0 }, 0)
+    track.push(point([0, 0.5, 0], [0, 1, 0]), { seq: 2, sentAt: 100 }, 100)
+
+    expectAt(sampleAt(track, 25 + PLAYOUT_DELAY_MS), [0.5, 0.25, 0], [1, 0, 0])
+    expectAt(sampleAt(track, 50 + PLAYOUT_DELAY_MS), [0.5, 0.5, 0])
+    expectAt(sampleAt(track, 75 + PLAYOUT_DELAY_MS), [0.25, 0.5, 0], [0, 1, 0])
+
+    for (let now = 0; now <= 100; now += 5) {
+      const { position } = sampleAt(track, now + PLAYOUT_DELAY_MS)
+      expect(Math.max(Math.abs(position.x), Math.abs(position.y), Math.abs(position.z))).toBeCloseTo(0.5, 6)
+    }
+  })
+
+  it('goes straight to a move that came without timing', () => {
+    const track = createCursorTrack()
+    track.push(onRight(0), { seq: 1, sentAt: 0 }, 0)
+    track.push(onRight(0.3), undefined, 10)
+
+    expectAt(sampleAt(track, 10), [0.5, 0.3, 0])
+    expect(track.isMoving(10)).toBe(false)
+  })
+})
@@ -0,0 +1,209 @@
+import * as THREE from 'three'
+import type { CursorTiming } from '../shared/protocol'
+
+// Plays one remote cursor's moves back smoothly. Moves arrive in bursts (the
+// server batches them per tick, and networks jitter), so each is held back by a
+// short playout delay and the cursor glides between them along the surface,
+// coasting on along its last heading for a moment when the next one is late.
+
+export interface CursorPoint {
+  position: THREE.Vector3
+  normal: THREE.Vector3
+}
+
+export interface CursorTrack {
+  // Returns false for a move older than one already played
+  push: (point: CursorPoint, timing: CursorTiming | undefined, arrivedAt: number) => boolean
+  // Forget buffered moves so the next one is drawn straight away, e.g. after the cursor left
+  reset: () => void
+  // Write where the cursor is at local time `now` into target; false before the first move
+  sample: (now: number, target: CursorPoint) => boolean
+  // Still gliding (or coasting) at `now`, rather than resting on its newest move
+  isMoving: (now: number) => boolean
+}
+
+// About two and a half server ticks, enough to ride out ordinary jitter
+export const PLAYOUT_DELAY_MS = 100
+
+// Keep going this far past the newest move. If nothing has come by then the
+// sender most likely stopped, so the cursor eases back onto that last move.
+const MAX_EXTRAPOLATION_MS = 80
+
+// A cursor that rested before moving on sat still until just before the next
+// move, rather than creeping towards it all along
+const MAX_GLIDE_MS = 100
+
+const MAX_BUFFERED_MOVES = 16
+
+const SEQ_RANGE = 0x10000
+
+// Points this close to a cube face's plane, with its normal, are on that face
+const FACE_TOLERANCE = 1e-3
+
+interface TimedPoint extends CursorPoint {
+  // Sender's clock, unwrapped; -Infinity for a move that came without timing
+  time: number
+}
+
+// True if seq comes after last, allowing for the 16-bit counter wrapping
+export function isNewerSeq(seq: number, last: number): boolean {
+  const ahead = (seq - last + SEQ_RANGE) % SEQ_RANGE
+  return ahead > 0 && ahead < SEQ_RANGE / 2
+}
+
+// Axis of the RGB cube face the point lies on, or null for any other surface
+function cubeFaceAxis({ position, normal }: CursorPoint): number | null {
+  for (let axis = 0; axis < 3; axis++) {
+    if (Math.abs(normal.getComponent(axis)) > 0.999) {
+      const sign = Math.sign(normal.getComponent(axis))
+      return Math.abs(position.getComponent(axis) * sign - 0.5) < FACE_TOLERANCE ? axis : null
+    }
+  }
+  return null
+}
+
+function onSameFace(a: CursorPoint, b: CursorPoint): boolean {
+  return a.normal.dot(b.normal) > 0.999
+}
+
+const edge = new THREE.Vector3()
+
+// Move t of the way from one point to the next without cutting through the solid
+function travel(from: CursorPoint, to: CursorPoint, t: number, target: CursorPoint) {
+  const fromAxis = cubeFaceAxis(from)
+  const toAxis = cubeFaceAxis(to)
+
+  if (fromAxis === null || toAxis === null || onSameFace(from, to)) {
+    // Across one face, or close enough on a curved solid that the chord will do
+    target.position.lerpVectors(from.position, to.position, t)
+    target.normal.lerpVectors(from.normal, to.normal, t)
+    if (target.normal.lengthSq() < 1e-6) target.normal.copy(to.normal)
+    target.normal.normalize()
+    return
+  }
+
+  if (fromAxis === toAxis) {
+    // Opposite faces: no sensible path between them, so jump halfway
+    const nearest = t < 0.5 ? from : to
+    target.position.copy(nearest.position)
+    target.normal.copy(nearest.normal)
+    return
+  }
+
+  // Adjacent faces: unfold them flat and go straight, crossing the shared edge at
+  // the point along it that keeps the path straight
+  const fromSign = Math.sign(from.normal.getComponent(fromAxis))
+  const toSign = Math.sign(to.normal.getComponent(toAxis))
+  const alongAxis = 3 - fromAxis - toAxis
+  const fromDistance = 0.5 - toSign * from.position.getComponent(toAxis)
+  const toDistance = 0.5 - fromSign * to.position.getComponent(fromAxis)
+  const crossing = fromDistance + toDistance > 0 ? fromDistance / (fromDistance + toDistance) : 0.5
+
+  edge.setComponent(fromAxis, 0.5 * fromSign)
+  edge.setComponent(toAxis, 0.5 * toSign)
+  edge.setComponent(alongAxis, THREE.MathUtils.lerp(from.position.getComponent(alongAxis), to.position.getComponent(alongAxis), crossing))
+
+  const first = from.position.distanceTo(edge)
+  const second = edge.distanceTo(to.position)
+  const travelled = t * (first + second)
+  if (travelled <= first) {
+    target.position.lerpVectors(from.position, edge, first > 0 ? travelled / first : 1)
+    target.normal.copy(from.normal)
+  } else {
+    target.position.lerpVectors(edge, to.position, second > 0 ? (travelled - first) / second : 1)
+    target.normal.copy(to.normal)
+  }
+}
+
+// Carry on at the speed between the last two moves, staying on the last one's face
+function extrapolate(previous: TimedPoint, last: TimedPoint, ahead: number, target: CursorPoint) {
+  target.position.copy(last.position)
+  target.normal.copy(last.normal)
+
+  // Only as fast as it was drawn gliding there
+  const interval = Math.min(last.time - previous.time, MAX_GLIDE_MS)
+  const axis = cubeFaceAxis(last)
+  if (interval <= 0 || cubeFaceAxis(previous) !== axis || !onSameFace(previous, last)) return
+
+  target.position.lerpVectors(previous.position, last.position, 1 + ahead / interval)
+  if (axis !== null) {
+    target.position.clampScalar(-0.5, 0.5)
+    target.position.setComponent(axis, last.position.getComponent(axis))
+  }
+}
+
+export function createCursorTrack(): CursorTrack {
+  let moves: TimedPoint[] = []
+  // Last move played out, kept to extrapolate from
+  let previous: TimedPoint | null = null
+  let lastSeq: number | null = null
+  let lastSentAt = 0
+  let lastTime = 0
+  // Smallest (arrival − sender time) seen: the gap between the two clocks plus
+  // the quickest delivery, which is as early as any move can be played
+  let clockOffset = Infinity
+
+  const push = (point: CursorPoint, timing: CursorTiming | undefined, arrivedAt: number): boolean => {
+    const copy = { position: point.position.clone(), normal: point.normal.clone() }
+    if (!timing) {
+      // Nothing to time it by (a position replayed on join), so just go there
+      moves = [{ ...copy, time: -Infinity }]
+      previous = null
+      return true
+    }
+
+    if (lastSeq !== null && !isNewerSeq(timing.seq, lastSeq)) return false
+    // sentAt wraps at 32 bits; the signed difference from the previous stamp survives that
+    const time = lastSeq === null ? timing.sentAt : lastTime + ((timing.sentAt - lastSentAt) | 0)
+    lastSeq = timing.seq
+    lastSentAt = timing.sentAt
+    lastTime = time
+    clockOffset = Math.min(clockOffset, arrivedAt - time)
+
+    moves = moves.filter(move => move.time !== -Infinity)
+    moves.push({ ...copy, time })
+    if (moves.length > MAX_BUFFERED_MOVES) moves.shift()
+    return true
+  }
+
+  const reset = () => {
+    moves = []
+    previous = null
+  }
+
+  const sample = (now: number, target: CursorPoint): boolean => {
+    if (moves.length === 0) return false
+
+    // Where the sender was this long ago, on their clock
+    const playTime = now - clockOffset - PLAYOUT_DELAY_MS
+    while (moves.length > 1 && moves[1].time <= playTime) {
+      previous = moves.shift()!
+    }
+
+    const [from, to] = moves
+    const glideStart = to ? Math.max(from.time, to.time - MAX_GLIDE_MS) : from.time
+    if (playTime <= glideStart) {
+      target.position.copy(from.position)
+      target.normal.copy(from.normal)
+    } else if (to) {
+      travel(from, to, (playTime - glideStart) / (to.time - glideStart), target)
+    } else if (previous) {
+      const late = playTime - from.time
+      const ahead = late < MAX_EXTRAPOLATION_MS ? late : Math.max(0, 2 * MAX_EXTRAPOLATION_MS - late)
+      extrapolate(previous, from, ahead, target)
+    } else {
+      target.position.copy(from.position)
+      target.normal.copy(from.normal)
+    }
+    return true
+  }
+
+  const isMoving = (now: number): boolean => {
+    const last = moves[moves.length - 1]
+    if (!last || last.time === -Infinity || (moves.length === 1 && !previous)) return false
+    // Coasting past the newest move and easing back take up to twice the extrapolation window
+    return now - clockOffset - PLAYOUT_DELAY_MS < last.time + 2 * MAX_EXTRAPOLATION_MS
+  }
+
+  return { push, reset, sample, isMoving }
+}
@@ -0,0 +1,95 @@
+import * as THREE from 'three'
+import type { HeatmapState } from '../shared/protocol'
+
+// Overlay for the RGB cube faces showing where the room hovers: warm for popular voxels,
+// cool for rarely visited ones and a dark veil over regions nobody has been to yet.
+
+export interface HeatmapLayer {
+  object: THREE.Mesh
+  update: (heatmap: HeatmapState) => void
+  dispose: () => void
+}
+
+// Just outside the cube so it doesn't z-fight, but under the cursor discs
+const LAYER_SCALE = 1.002
+
+const vertexShader = /* glsl */ `
+  varying vec3 vPosition;
+
+  void main() {
+    vPosition = position;
+    gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+  }
+`
+
+const fragmentShader = /* glsl */ `
+  uniform sampler3D heat;
+  varying vec3 vPosition;
+
+  void main() {
+    vec3 uvw = clamp(vPosition / ${LAYER_SCALE.toFixed(3)} + 0.5, 0.0, 1.0);
+    float h = texture(heat, uvw).r;
+
+    if (h == 0.0) {
+      gl_FragColor = vec4(0.0, 0.0, 0.0, 0.55);
+      return;
+    }
+
+    // Blue through red to yellow as a voxel gets busier
+    vec3 color = h < 0.5
+      ? mix(vec3(0.15, 0.3, 1.0), vec3(1.0, 0.15, 0.1), h * 2.0)
+      : mix(vec3(1.0, 0.15, 0.1), vec3(1.0, 0.95, 0.2), h * 2.0 - 1.0);
+    gl_FragColor = vec4(color, 0.35 + 0.45 * h);
+  }
+`
+
+function createHeatTexture(resolution: number): THREE.Data3DTexture {
+  const texture = new THREE.Data3DTexture(new Uint8Array(resolution ** 3), resolution, resolution, resolution)
+  texture.format = THREE.RedFormat
+  texture.type = THREE.UnsignedByteType
+  texture.minFilter = THREE.NearestFilter
+  texture.magFilter = THREE.NearestFilter
+  texture.unpackAlignment = 1
+  return texture
+}
+
+export function createHeatmapLayer(): HeatmapLayer {
+  let texture = createHeatTexture(1)
+
+  const material = new THREE.ShaderMaterial({
+    uniforms: { heat: { value: texture } },
+    vertexShader,
+    fragmentShader,
+    transparent: true,
+    depthWrite: false
+  })
+
+  const geometry = new THREE.BoxGeometry(LAYER_SCALE, LAYER_SCALE, LAYER_SCALE)
+  const object = new THREE.Mesh(geometry, material)
+  object.renderOrder = 1
+
+  const update = ({ resolution, cells }: HeatmapState) => {
+    if (texture.image.width !== resolution) {
+      texture.dispose()
+      texture = createHeatTexture(resolution)
+      material.uniforms.heat.value = texture
+    }
+
+    // Log scale so one very popular spot doesn't wash everything else out
+    const data = texture.image.data as Uint8Array
+    data.fill(0)
+    const maxHits = cells.reduce((max, [, hits]) => Math.max(max, hits), 0)
+    for (const [cell, hits] of cells) {
+      data[cell] = Math.max(1, Math.round(255 * Math.log1p(hits) / Math.log1p(maxHits)))
+    }
+    texture.needsUpdate = true
+  }
+
+  const dispose = () => {
+    texture.dispose()
+    material.dispose()
+    geometry.dispose()
+  }
+
+  return { object, update, dispose }
+}
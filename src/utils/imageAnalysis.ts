@@ -0,0 +1,30 @@
+import type { ImageAnalysis } from './imageColors'
+import type { ImageAnalysisRequest, ImageAnalysisResponse } from '../workers/imageAnalysis'
+
+export type { DominantColor, ImageAnalysis } from './imageColors'
+
+// Decode an image file and analyse its colors in a worker. Each call gets its
+// own worker, which is thrown away once it answers.
+export async function analyzeImage(file: Blob): Promise<ImageAnalysis> {
+  // Decoding happens off the main thread too
+  const bitmap = await createImageBitmap(file)
+  const worker = new Worker(new URL('../workers/imageAnalysis.ts', import.meta.url), { type: 'module' })
+
+  return new Promise<ImageAnalysis>((resolve, reject) => {
+    worker.addEventListener('message', (event: MessageEvent<ImageAnalysisResponse>) => {
+      worker.terminate()
+      if (event.data.type === 'result') {
+        resolve(event.data.analysis)
+      } else {
+        reject(new Error(event.data.message))
+      }
+    })
+    worker.addEventListener('error', event => {
+      worker.terminate()
+      reject(new Error(event.message || 'Image analysis failed'))
+    })
+
+    const request: ImageAnalysisRequest = { bitmap }
+    worker.postMessage(request, [bitmap])
+  })
+}
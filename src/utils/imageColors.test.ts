@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest'
+import { computeGamutHull, findDominantColors, samplePixels } from './imageColors'
+
+// Packs [r, g, b, a] pixels the way ImageData holds them
+function rgba(...pixels: [number, number, number, number][]): Uint8ClampedArray {
+  return new Uint8ClampedArray(pixels.flat())
+}
+
+function rgb(...pixels: [number, number, number][]): Uint8Array {
+  return new Uint8Array(pixels.flat())
+}
+
+describe('samplePixels', () => {
+  it('skips mostly transparent pixels', () => {
+    const samples = samplePixels(rgba([255, 0, 0, 255], [0, 255, 0, 127], [0, 0, 255, 128], [9, 9, 9, 0]))
+    expect([...samples]).toEqual([255, 0, 0, 0, 0, 255])
+  })
+
+  it('strides evenly to stay within maxSamples', () => {
+    const pixels = Array.from({ length: 10 }, (_, i) => [i, i, i, 255] as [number, number, number, number])
+    expect([...samplePixels(rgba(...pixels), 5)]).toEqual([0, 0, 0, 2, 2, 2, 4, 4, 4, 6, 6, 6, 8, 8, 8])
+    expect(samplePixels(rgba(...pixels), 3).length / 3).toBeLessThanOrEqual(3)
+  })
+})
+
+describe('findDominantColors', () => {
+  it('returns nothing for no samples', () => {
+    expect(findDominantColors(new Uint8Array())).toEqual([])
+  })
+
+  it('returns each color once when there are fewer than k', () => {
+    const samples = rgb([255, 0, 0], [255, 0, 0], [255, 0, 0], [0, 0, 255])
+    expect(findDominantColors(samples, 6)).toEqual([
+      { hex: '#ff0000', share: 0.75 },
+      { hex: '#0000ff', share: 0.25 }
+    ])
+  })
+
+  it('gives shares that add up to 1, largest first', () => {
+    const samples = rgb(...Array.from({ length: 500 }, (_, i) => [(i * 37) % 256, (i * 91) % 256, (i * 13) % 256] as [number, number, number]))
+    const dominant = findDominantColors(samples, 6)
+    expect(dominant.length).toBeLessThanOrEqual(6)
+    expect(dominant.reduce((sum, color) => sum + color.share, 0)).toBeCloseTo(1, 10)
+    expect(dominant.map(color => color.share)).toEqual([...dominant.map(color => color.share)].sort((a, b) => b - a))
+  })
+})
+
+describe('computeGamutHull', () => {
+  it('is empty for fewer than 4 distinct colors, however many pixels', () => {
+    const samples = rgb(...Array.from({ length: 30 }, (_, i) => [[0, 0, 0], [255, 0, 0], [0, 255, 0]][i % 3] as [number, number, number]))
+    expect(computeGamutHull(samples).length).toBe(0)
+  })
+
+  it('is empty for coplanar colors', () => {
+    // Every pixel has no blue: a flat slab through the cube
+    expect(computeGamutHull(rgb([0, 0, 0], [255, 0, 0], [0, 255, 0], [255, 255, 0], [128, 64, 0])).length).toBe(0)
+  })
+
+  it('encloses a solid spread of colors in cube coordinates', () => {
+    const hull = computeGamutHull(rgb([0, 0, 0], [255, 0, 0], [0, 255, 0], [0, 0, 255], [60, 60, 60]))
+    // The four corners make a tetrahedron; the gray inside it adds no faces
+    expect(hull.length).toBe(4 * 9)
+    for (const value of hull) {
+      expect(Math.abs(value)).toBeLessThanOrEqual(0.5)
+    }
+  })
+})
@@ -0,0 +1,151 @@
+import { Vector3 } from 'three'
+import { ConvexHull } from 'three/examples/jsm/math/ConvexHull.js'
+import { rgbToHex } from '../shared/protocol'
+
+// Pure color statistics for an image's pixels. They run inside the image
+// analysis worker, so nothing here may touch the DOM.
+
+export interface DominantColor {
+  hex: string
+  // Fraction of the sampled pixels closest to this color
+  share: number
+}
+
+export interface ImageAnalysis {
+  width: number
+  height: number
+  // Sampled pixels as packed r, g, b bytes
+  samples: Uint8Array
+  // Gamut hull as a triangle soup (x, y, z per vertex) in cube coordinates
+  hull: Float32Array
+  // Largest cluster first
+  dominant: DominantColor[]
+}
+
+// Enough points to show the distribution without drowning the cube
+export const MAX_SAMPLES = 16384
+
+export const DOMINANT_COLOR_COUNT = 6
+
+const KMEANS_ITERATIONS = 12
+
+// Hulls thinner than this are flat and would just flicker against themselves
+const MIN_HULL_VOLUME = 1e-6
+
+// Mostly transparent pixels aren't part of the picture
+const MIN_ALPHA = 128
+
+// Evenly strided opaque pixels from RGBA data
+export function samplePixels(rgba: Uint8ClampedArray, maxSamples = MAX_SAMPLES): Uint8Array {
+  const pixelCount = rgba.length / 4
+  const stride = Math.max(1, Math.ceil(pixelCount / maxSamples))
+  const samples = new Uint8Array(Math.ceil(pixelCount / stride) * 3)
+
+  let length = 0
+  for (let pixel = 0; pixel < pixelCount; pixel += stride) {
+    const offset = pixel * 4
+    if (rgba[offset + 3] < MIN_ALPHA) continue
+    samples[length++] = rgba[offset]
+    samples[length++] = rgba[offset + 1]
+    samples[length++] = rgba[offset + 2]
+  }
+  return samples.slice(0, length)
+}
+
+function distanceSquared(samples: Uint8Array, index: number, centroid: number[]): number {
+  const dr = samples[index] - centroid[0]
+  const dg = samples[index + 1] - centroid[1]
+  const db = samples[index + 2] - centroid[2]
+  return dr * dr + dg * dg + db * db
+}
+
+// k-means in plain RGB, seeded with k-means++ so small accent colors still get a cluster
+export function findDominantColors(samples: Uint8Array, k = DOMINANT_COLOR_COUNT): DominantColor[] {
+  const count = samples.length / 3
+  if (count === 0) return []
+
+  const centroids: number[][] = []
+  const nearest = new Float64Array(count).fill(Infinity)
+  let seed = Math.floor(Math.random() * count) * 3
+
+  while (centroids.length < Math.min(k, count)) {
+    const centroid = [samples[seed], samples[seed + 1], samples[seed + 2]]
+    centroids.push(centroid)
+
+    // Next seed is picked with probability proportional to its distance from the chosen ones
+    let total = 0
+    for (let i = 0; i < count; i++) {
+      nearest[i] = Math.min(nearest[i], distanceSquared(samples, i * 3, centroid))
+      total += nearest[i]
+    }
+    if (total === 0) break // Every pixel is already on a centroid
+
+    let target = Math.random() * total
+    for (let i = 0; i < count; i++) {
+      target -= nearest[i]
+      if (target <= 0) {
+        seed = i * 3
+        break
+      }
+    }
+  }
+
+  const assignments = new Uint8Array(count)
+  for (let iteration = 0; iteration < KMEANS_ITERATIONS; iteration++) {
+    const sums = centroids.map(() => [0, 0, 0, 0])
+    for (let i = 0; i < count; i++) {
+      let best = 0
+      let bestDistance = Infinity
+      centroids.forEach((centroid, c) => {
+        const distance = distanceSquared(samples, i * 3, centroid)
+        if (distance < bestDistance) {
+          best = c
+          bestDistance = distance
+        }
+      })
+      assignments[i] = best
+      sums[best][0] += samples[i * 3]
+      sums[best][1] += samples[i * 3 + 1]
+      sums[best][2] += samples[i * 3 + 2]
+      sums[best][3]++
+    }
+    sums.forEach(([r, g, b, members], c) => {
+      if (members > 0) centroids[c] = [r / members, g / members, b / members]
+    })
+  }
+
+  const members = new Array<number>(centroids.length).fill(0)
+  assignments.forEach(c => members[c]++)
+  return centroids
+    .map((centroid, c) => ({ hex: rgbToHex({ r: Math.round(centroid[0]), g: Math.round(centroid[1]), b: Math.round(centroid[2]) }), share: members[c] / count }))
+    .filter(color => color.share > 0)
+    .sort((a, b) => b.share - a.share)
+}
+
+// Delaunator only triangulates in 2D, so the 3D gamut hull comes from three's quickhull
+export function computeGamutHull(samples: Uint8Array): Float32Array {
+  const unique = new Set<number>()
+  for (let i = 0; i < samples.length; i += 3) {
+    unique.add((samples[i] << 16) | (samples[i + 1] << 8) | samples[i + 2])
+  }
+  // Fewer points than a tetrahedron can't enclose anything
+  if (unique.size < 4) return new Float32Array()
+
+  const points = [...unique].map(value => new Vector3(
+    ((value >> 16) & 0xff) / 255 - 0.5,
+    ((value >> 8) & 0xff) / 255 - 0.5,
+    (value & 0xff) / 255 - 0.5
+  ))
+
+  const vertices: number[] = []
+  let volume = 0
+  for (const face of new ConvexHull().setFromPoints(points).faces) {
+    const [a, b, c] = [face.getEdge(0), face.getEdge(1), face.getEdge(2)].map(edge => edge.head().point)
+    vertices.push(a.x, a.y, a.z, b.x, b.y, b.z, c.x, c.y, c.z)
+    volume += a.dot(new Vector3().crossVectors(b, c)) / 6
+  }
+
+  // Coplanar or collinear pixels (a flat gradient, a two-tone logo) come back as
+  // a degenerate sliver rather than an error
+  return Math.abs(volume) < MIN_HULL_VOLUME ? new Float32Array() : new Float32Array(vertices)
+}
@@ -0,0 +1,41 @@
+import * as THREE from 'three'
+
+// Name tags drawn to a canvas texture, for cursors and plotted colors
+
+// World-space height of the name tag floating next to a remote cursor
+export const CURSOR_LABEL_HEIGHT = 0.04
+
+export function createLabelSprite(text: string, height = CURSOR_LABEL_HEIGHT): THREE.Sprite {
+  const fontSize = 32
+  const padding = 12
+  const font = `${fontSize}px -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif`
+
+  const canvas = document.createElement('canvas')
+  const context = canvas.getContext('2d')!
+  context.font = font
+  canvas.width = Math.ceil(context.measureText(text).width) + padding * 2
+  canvas.height = fontSize + padding
+
+  // Resizing the canvas resets the context
+  context.font = font
+  context.fillStyle = 'rgba(0, 0, 0, 0.6)'
+  context.fillRect(0, 0, canvas.width, canvas.height)
+  context.fillStyle = '#ffffff'
+  context.textBaseline = 'middle'
+  context.fillText(text, padding, canvas.height / 2)
+
+  const texture = new THREE.CanvasTexture(canvas)
+  texture.colorSpace = THREE.SRGBColorSpace
+  const sprite = new THREE.Sprite(new THREE.SpriteMaterial({ map: texture, transparent: true, depthWrite: false }))
+  sprite.name = 'label'
+  // Anchor the bottom-left corner so the tag sits beside the cursor rather than over it
+  sprite.center.set(0, 0)
+  sprite.scale.set(height * canvas.width / canvas.height, height, 1)
+  sprite.renderOrder = 1
+  return sprite
+}
+
+export function disposeLabelSprite(sprite: THREE.Sprite) {
+  sprite.material.map?.dispose()
+  sprite.material.dispose()
+}
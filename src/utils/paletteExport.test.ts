@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest'
+import { formatCss, formatDesignTokens, formatGpl, type NamedColor } from './paletteExport'
+import { parseCssVariables, parseDesignTokens, parseGpl, parsePalette } from './paletteImport'
+
+const colors: NamedColor[] = [
+  { name: 'Brand Primary', hex: '#ff8800' },
+  { name: 'ratio: 3 = 4', hex: '#0a0b0c' },
+  { name: 'key=value', hex: '#ffffff' },
+  { name: '#000000', hex: '#000000' },
+  { name: '2024 accent', hex: '#12c88f' }
+]
+
+// Shorthand hex comes back written out in full
+const shorthand: NamedColor[] = [{ name: 'Short', hex: '#f80' }]
+const shorthandExpanded: NamedColor[] = [{ name: 'Short', hex: '#ff8800' }]
+
+const formats = [
+  { name: 'GPL', format: (palette: NamedColor[]) => formatGpl(palette, 'Test'), parse: parseGpl },
+  { name: 'design tokens', format: formatDesignTokens, parse: (text: string) => parseDesignTokens(JSON.parse(text)) },
+  { name: 'CSS custom properties', format: formatCss, parse: parseCssVariables }
+]
+
+describe.each(formats)('$name round trip', ({ format, parse }) => {
+  it('keeps names and colors', () => {
+    expect(parse(format(colors))).toEqual(colors)
+  })
+
+  it('expands 3-digit hex', () => {
+    expect(parse(format(shorthand))).toEqual(shorthandExpanded)
+  })
+
+  it('keeps an empty palette empty', () => {
+    expect(parse(format([]))).toEqual([])
+  })
+
+  it('is recognized by parsePalette', () => {
+    expect(parsePalette(format(colors))).toEqual(colors)
+  })
+})
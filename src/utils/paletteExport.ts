@@ -0,0 +1,166 @@
+import { hexToRGB, type NamedColor } from '../shared/protocol'
+
+// Pure formatters that turn a list of named colors into files for design tools and code.
+// Each returns the file contents; downloading or copying them is up to the caller.
+
+export type { NamedColor }
+
+export type ExportFormatId = 'css' | 'tailwind' | 'tokens' | 'gpl' | 'ase' | 'svg'
+
+export interface ExportFormat {
+  id: ExportFormatId
+  label: string
+  extension: string
+  mimeType: string
+  // Can only be downloaded, not copied as text
+  binary?: boolean
+  format: (colors: NamedColor[], title: string) => string | ArrayBuffer
+}
+
+// Identifier-safe, unique names for formats that key colors by name
+function toKeys(colors: NamedColor[]): string[] {
+  const seen = new Map<string, number>()
+  return colors.map(({ name, hex }) => {
+    const slug = name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '') || hex.slice(1)
+    // Leading digits make poor identifiers, and JSON would reorder integer-like keys
+    const base = /^[0-9]/.test(slug) ? `color-${slug}` : slug
+    const count = (seen.get(base) ?? 0) + 1
+    seen.set(base, count)
+    return count === 1 ? base : `${base}-${count}`
+  })
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/[<>&"']/g, char => `&#${char.charCodeAt(0)};`)
+}
+
+// Names that don't survive as a property name follow in a comment, which parseCssVariables reads back
+export function formatCss(colors: NamedColor[]): string {
+  const keys = toKeys(colors)
+  const lines = colors.map(({ name, hex }, index) => {
+    const comment = name === keys[index] ? '' : ` /* ${name.replace(/\*\//g, '* /').replace(/[\r\n]+/g, ' ')} */`
+    return `  --${keys[index]}: ${hex};${comment}`
+  })
+  return `:root {\n${lines.join('\n')}\n}\n`
+}
+
+export function formatTailwind(colors: NamedColor[]): string {
+  const keys = toKeys(colors)
+  const entries = colors.map(({ hex }, index) => `        '${keys[index]}': '${hex}',`)
+  return [
+    `/** @type {import('tailwindcss').Config} */`,
+    'export default {',
+    '  theme: {',
+    '    extend: {',
+    '      colors: {',
+    ...entries,
+    '      },',
+    '    },',
+    '  },',
+    '}',
+    ''
+  ].join('\n')
+}
+
+// W3C Design Tokens Community Group format
+export function formatDesignTokens(colors: NamedColor[]): string {
+  const keys = toKeys(colors)
+  const tokens: Record<string, { $type: 'color'; $value: string; $description?: string }> = {}
+  colors.forEach(({ name, hex }, index) => {
+    tokens[keys[index]] = { $type: 'color', $value: hex, ...(name !== keys[index] && { $description: name }) }
+  })
+  return `${JSON.stringify(tokens, null, 2)}\n`
+}
+
+// GIMP (and Inkscape, Krita) palette
+export function formatGpl(colors: NamedColor[], title: string): string {
+  const lines = colors.map(({ name, hex }) => {
+    const { r, g, b } = hexToRGB(hex)
+    const channels = [r, g, b].map(channel => String(channel).padStart(3)).join(' ')
+    return `${channels}\t${name.replace(/[\r\n]+/g, ' ')}`
+  })
+  return ['GIMP Palette', `Name: ${title}`, 'Columns: 8', '#', ...lines, ''].join('\n')
+}
+
+// Adobe Swatch Exchange: big-endian, UTF-16 names, one RGB color block per swatch
+export function formatAse(colors: NamedColor[]): ArrayBuffer {
+  // Name length in UTF-16 code units including the terminator
+  const nameLengths = colors.map(({ name }) => name.length + 1)
+  const blockLengths = nameLengths.map(nameLength => 2 + nameLength * 2 + 4 + 3 * 4 + 2)
+  const size = 12 + blockLengths.reduce((total, length) => total + 6 + length, 0)
+
+  const view = new DataView(new ArrayBuffer(size))
+  const writeAscii = (offset: number, text: string) => {
+    text.split('').forEach((char, i) => view.setUint8(offset + i, char.charCodeAt(0)))
+  }
+
+  writeAscii(0, 'ASEF')
+  view.setUint16(4, 1) // version 1.0
+  view.setUint16(6, 0)
+  view.setUint32(8, colors.length)
+
+  let offset = 12
+  colors.forEach(({ name, hex }, index) => {
+    view.setUint16(offset, 0x0001) // color entry
+    view.setUint32(offset + 2, blockLengths[index])
+    view.setUint16(offset + 6, nameLengths[index])
+    offset += 8
+    for (let i = 0; i < name.length; i++, offset += 2) {
+      view.setUint16(offset, name.charCodeAt(i))
+    }
+    offset += 2 // terminator
+
+    writeAscii(offset, 'RGB ')
+    offset += 4
+    const { r, g, b } = hexToRGB(hex)
+    for (const channel of [r, g, b]) {
+      view.setFloat32(offset, channel / 255)
+      offset += 4
+    }
+    view.setUint16(offset, 2) // normal (not global or spot)
+    offset += 2
+  })
+
+  return view.buffer
+}
+
+export function formatSvg(colors: NamedColor[], title: string): string {
+  const columns = 6
+  const size = 96
+  const labelHeight = 36
+  const gap = 16
+  const rows = Math.max(1, Math.ceil(colors.length / columns))
+  const width = columns * (size + gap) + gap
+  const height = 48 + rows * (size + labelHeight + gap)
+
+  const swatches = colors.map(({ name, hex }, index) => {
+    const x = gap + (index % columns) * (size + gap)
+    const y = 48 + Math.floor(index / columns) * (size + labelHeight + gap)
+    return [
+      `  <rect x="${x}" y="${y}" width="${size}" height="${size}" rx="8" fill="${hex}" stroke="#00000022"/>`,
+      `  <text x="${x}" y="${y + size + 16}" font-size="12">${escapeXml(name)}</text>`,
+      `  <text x="${x}" y="${y + size + 30}" font-size="11" fill="#666">${hex.toUpperCase()}</text>`
+    ].join('\n')
+  })
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="-apple-system, 'Segoe UI', sans-serif">`,
+    `  <rect width="100%" height="100%" fill="#ffffff"/>`,
+    `  <text x="${gap}" y="30" font-size="18" font-weight="600">${escapeXml(title)}</text>`,
+    ...swatches,
+    '</svg>',
+    ''
+  ].join('\n')
+}
+
+export const EXPORT_FORMATS: ExportFormat[] = [
+  { id: 'css', label: 'CSS custom properties', extension: 'css', mimeType: 'text/css', format: formatCss },
+  { id: 'tailwind', label: 'Tailwind theme', extension: 'js', mimeType: 'text/javascript', format: formatTailwind },
+  { id: 'tokens', label: 'JSON design tokens', extension: 'tokens.json', mimeType: 'application/json', format: formatDesignTokens },
+  { id: 'gpl', label: 'GIMP palette (.gpl)', extension: 'gpl', mimeType: 'text/plain', format: formatGpl },
+  { id: 'ase', label: 'Adobe swatches (.ase)', extension: 'ase', mimeType: 'application/octet-stream', binary: true, format: formatAse },
+  { id: 'svg', label: 'SVG swatch sheet', extension: 'svg', mimeType: 'image/svg+xml', format: formatSvg }
+]
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest'
+import { parseHexList } from './paletteImport'
+
+describe('parseHexList', () => {
+  it('reads named and unnamed colors', () => {
+    expect(parseHexList('#ff8800\nbrand: #0a0b0c\n#123 accent\nbackground = ffffff\nabcdef')).toEqual([
+      { name: '#ff8800', hex: '#ff8800' },
+      { name: 'brand', hex: '#0a0b0c' },
+      { name: 'accent', hex: '#112233' },
+      { name: 'background', hex: '#ffffff' },
+      { name: '#abcdef', hex: '#abcdef' }
+    ])
+  })
+
+  it('leaves hex-like words in names alone', () => {
+    expect(parseHexList('add bed: #ff8800\n#00ff00 decade fed\ncafe00 shade: #000000')).toEqual([
+      { name: 'add bed', hex: '#ff8800' },
+      { name: 'decade fed', hex: '#00ff00' },
+      { name: 'cafe00 shade', hex: '#000000' }
+    ])
+  })
+
+  it('skips lines that only contain hex-like words', () => {
+    expect(parseHexList('add the bed\nfed up with a decade')).toEqual([])
+  })
+
+  it('takes a bare value that spells its own name', () => {
+    expect(parseHexList('fed: fed')).toEqual([{ name: 'fed', hex: '#ffeedd' }])
+  })
+})
@@ -0,0 +1,139 @@
+import { MAX_COLOR_NAME_LENGTH, colorToRGB, rgbToHex, type NamedColor } from '../shared/protocol'
+
+// Parsers for pasted or uploaded palettes. parsePalette sniffs the format; the
+// individual parsers read what the matching formatters in paletteExport write.
+
+// Plotting more than this inside the cube stops being readable
+export const MAX_IMPORTED_COLORS = 512
+
+function toHex(value: string): string | null {
+  const rgb = colorToRGB(value.trim())
+  return rgb && rgbToHex(rgb)
+}
+
+function toName(name: string, hex: string): string {
+  const cleaned = name.replace(/\p{C}+/gu, ' ').trim().slice(0, MAX_COLOR_NAME_LENGTH).trim()
+  return cleaned || hex
+}
+
+// Hex colors written out on a line. Words like "add" or "decade" look like hex
+// too, so a bare one only counts when it is the whole value: the entire line, or
+// everything after a "name:" or "name =".
+function findHexes(line: string): string[] {
+  const prefixed = line.match(/#(?:[0-9a-f]{6}|[0-9a-f]{3})\b/gi)
+  if (prefixed) return prefixed
+
+  const bare = line.match(/^(?:.*?[:=])?\s*([0-9a-f]{6}|[0-9a-f]{3})\s*[;,]?\s*$/i)
+  return bare ? [bare[1]] : []
+}
+
+// One color per line, optionally named: "#ff8800", "brand: #ff8800", "#ff8800 brand", "brand = ff8800", "ff8800"
+export function parseHexList(text: string): NamedColor[] {
+  const colors: NamedColor[] = []
+  for (const line of text.split(/\r?\n/)) {
+    const matches = findHexes(line)
+    const hexes = matches.map(match => toHex(match.startsWith('#') ? match : `#${match}`)).filter((hex): hex is string => hex !== null)
+
+    if (hexes.length === 1) {
+      // The rest of the line, minus separators, names the color. The value comes
+      // last when the name might spell the same bare hex, as in "fed: fed".
+      const at = line.lastIndexOf(matches[0])
+      const name = (line.slice(0, at) + line.slice(at + matches[0].length)).replace(/^[\s:=,;\-–]+|[\s:=,;\-–]+$/g, '')
+      colors.push({ name: toName(name, hexes[0]), hex: hexes[0] })
+    } else {
+      colors.push(...hexes.map(hex => ({ name: hex, hex })))
+    }
+  }
+  return colors
+}
+
+// `--brand-primary: #ff8800;` anywhere in the text, with any CSS color as the value.
+// A comment after it on the same line, as formatCss writes, names the color instead.
+export function parseCssVariables(text: string): NamedColor[] {
+  const colors: NamedColor[] = []
+  for (const [, key, value, comment] of text.matchAll(/--([\w-]+)\s*:\s*([^;}]+);?[ \t]*(?:\/\*(.*?)\*\/)?/g)) {
+    const hex = toHex(value)
+    if (hex) colors.push({ name: toName(comment ?? key, hex), hex })
+  }
+  return colors
+}
+
+export function parseGpl(text: string): NamedColor[] {
+  const colors: NamedColor[] = []
+  for (const line of text.split(/\r?\n/).slice(1)) {
+    const match = line.match(/^\s*(\d{1,3})\s+(\d{1,3})\s+(\d{1,3})\s*(.*)$/)
+    if (!match) continue // Name:, Columns: and # comment lines
+
+    const [r, g, b] = match.slice(1, 4).map(Number)
+    if (Math.max(r, g, b) > 255) continue
+    const hex = rgbToHex({ r, g, b })
+    colors.push({ name: toName(match[4], hex), hex })
+  }
+  return colors
+}
+
+// W3C design tokens (nested groups, `$value`), older `value` tokens, or a plain
+// JSON array of colors or { name, hex | color | value } objects
+export function parseDesignTokens(json: unknown): NamedColor[] {
+  const colors: NamedColor[] = []
+
+  const visit = (node: unknown, path: string[]) => {
+    if (typeof node === 'string') {
+      const hex = toHex(node)
+      if (hex) colors.push({ name: toName(path.join('.'), hex), hex })
+      return
+    }
+    if (Array.isArray(node)) {
+      node.forEach(item => {
+        if (item && typeof item === 'object' && !Array.isArray(item) && typeof item.name === 'string') {
+          visit(item.hex ?? item.color ?? item.value ?? item.$value, [item.name])
+        } else {
+          visit(item, path)
+        }
+      })
+      return
+    }
+    if (!node || typeof node !== 'object') return
+
+    const token = node as Record<string, unknown>
+    const value = token.$value ?? token.value
+    if (typeof value === 'string') {
+      if (token.$type === undefined || token.$type === 'color' || token.type === 'color') {
+        // Our own exports keep the original name in the description
+        visit(value, typeof token.$description === 'string' ? [token.$description] : path)
+      }
+      return
+    }
+    for (const [key, child] of Object.entries(token)) {
+      if (!key.startsWith('$')) visit(child, [...path, key])
+    }
+  }
+
+  visit(json, [])
+  return colors
+}
+
+export function parsePalette(text: string): NamedColor[] {
+  const trimmed = text.trim()
+  let colors: NamedColor[]
+
+  if (/^GIMP Palette/i.test(trimmed)) {
+    colors = parseGpl(trimmed)
+  } else if (/^[[{]/.test(trimmed) && isJson(trimmed)) {
+    colors = parseDesignTokens(JSON.parse(trimmed))
+  } else if (/--[\w-]+\s*:/.test(trimmed)) {
+    colors = parseCssVariables(trimmed)
+  } else {
+    colors = parseHexList(trimmed)
+  }
+  return colors.slice(0, MAX_IMPORTED_COLORS)
+}
+
+function isJson(text: string): boolean {
+  try {
+    JSON.parse(text)
+    return true
+  } catch {
+    return false
+  }
+}
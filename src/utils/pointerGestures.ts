@@ -0,0 +1,123 @@
+// Pointer Events for picking on the cube canvas, shared by the React visualizer
+// and the legacy 3d.ts client. Mouse and pen hover to pick and click to commit.
+// Touch can't hover, so a finger picks where it lands, scrubs across the surface
+// as it drags and locks on a long press. Two fingers are left to OrbitControls
+// (set its touches.ONE to null so one finger doesn't orbit as well).
+
+export interface PointerGestureHandlers {
+  // The pick point moved to these client coordinates: a hovering mouse or pen, or a scrubbing finger
+  onPoint: (clientX: number, clientY: number) => void
+  // Nothing is pointing any more: a mouse or pen left, or the browser cancelled the pointer
+  onLeave: () => void
+  // Pressed and released in place; the event says which pointer and modifiers
+  onTap: (clientX: number, clientY: number, event: PointerEvent) => void
+  // A finger held still for LONG_PRESS_MS
+  onLongPress: (clientX: number, clientY: number) => void
+}
+
+// Travel (px) between press and release that still counts as a tap rather than a drag
+export const TAP_MAX_DRAG_PX = 5
+
+export const LONG_PRESS_MS = 500
+
+interface Press {
+  startX: number
+  startY: number
+  moved: boolean
+  // A long press or a second finger already used this press, so releasing it isn't a tap
+  consumed: boolean
+}
+
+export function attachPointerGestures(element: HTMLElement, handlers: PointerGestureHandlers): () => void {
+  const presses = new Map<number, Press>()
+  const touches = new Set<number>()
+  // Set while two or more fingers are down, until they have all lifted, so the
+  // finger left behind after a pinch doesn't suddenly start scrubbing
+  let isMultiTouch = false
+  let longPressTimer: ReturnType<typeof setTimeout> | null = null
+
+  const clearLongPress = () => {
+    if (longPressTimer) {
+      clearTimeout(longPressTimer)
+      longPressTimer = null
+    }
+  }
+
+  const handlePointerDown = (event: PointerEvent) => {
+    // Only the primary mouse button picks; the others pan and orbit
+    if (event.pointerType === 'mouse' && event.button !== 0) return
+
+    const press: Press = { startX: event.clientX, startY: event.clientY, moved: false, consumed: false }
+    presses.set(event.pointerId, press)
+    if (event.pointerType !== 'touch') return
+
+    touches.add(event.pointerId)
+    clearLongPress()
+    if (touches.size > 1) {
+      isMultiTouch = true
+      presses.forEach(other => { other.consumed = true })
+      return
+    }
+
+    handlers.onPoint(event.clientX, event.clientY)
+    longPressTimer = setTimeout(() => {
+      longPressTimer = null
+      if (press.moved || isMultiTouch) return
+      press.consumed = true
+      handlers.onLongPress(press.startX, press.startY)
+    }, LONG_PRESS_MS)
+  }
+
+  const handlePointerMove = (event: PointerEvent) => {
+    const press = presses.get(event.pointerId)
+    if (press && Math.hypot(event.clientX - press.startX, event.clientY - press.startY) >= TAP_MAX_DRAG_PX) {
+      press.moved = true
+      if (event.pointerType === 'touch') clearLongPress()
+    }
+
+    if (event.pointerType === 'touch' && (isMultiTouch || !touches.has(event.pointerId))) return
+    handlers.onPoint(event.clientX, event.clientY)
+  }
+
+  const handlePointerUp = (event: PointerEvent) => {
+    const press = presses.get(event.pointerId)
+    presses.delete(event.pointerId)
+    if (touches.delete(event.pointerId)) {
+      clearLongPress()
+      if (touches.size === 0) isMultiTouch = false
+    }
+
+    if (press && !press.moved && !press.consumed) {
+      handlers.onTap(event.clientX, event.clientY, event)
+    }
+  }
+
+  // The browser took the pointer over (a system gesture, the page scrolling) or lost it
+  const handlePointerCancel = (event: PointerEvent) => {
+    presses.delete(event.pointerId)
+    touches.delete(event.pointerId)
+    if (touches.size === 0) isMultiTouch = false
+    clearLongPress()
+    handlers.onLeave()
+  }
+
+  // A lifted finger also "leaves", but what it picked should stay on screen
+  const handlePointerLeave = (event: PointerEvent) => {
+    if (event.pointerType !== 'touch') handlers.onLeave()
+  }
+
+  element.addEventListener('pointerdown', handlePointerDown)
+  element.addEventListener('pointermove', handlePointerMove)
+  element.addEventListener('pointerup', handlePointerUp)
+  element.addEventListener('pointercancel', handlePointerCancel)
+  element.addEventListener('pointerleave', handlePointerLeave)
+
+  return () => {
+    clearLongPress()
+    element.removeEventListener('pointerdown', handlePointerDown)
+    element.removeEventListener('pointermove', handlePointerMove)
+    element.removeEventListener('pointerup', handlePointerUp)
+    element.removeEventListener('pointercancel', handlePointerCancel)
+    element.removeEventListener('pointerleave', handlePointerLeave)
+  }
+}
@@ -0,0 +1,356 @@
+import * as THREE from 'three'
+import type { CursorState, RGB, Vec3 } from '../shared/protocol'
+import { createCursorTrack, type CursorPoint, type CursorTrack } from './cursorTrack'
+import { createLabelSprite, disposeLabelSprite } from './labelSprite'
+
+// Everyone else's cursors. However big the room gets they cost two draw calls:
+// one instanced mesh for the discs and one for the trails behind them. Only the
+// optional name tags still need a sprite (and a texture) per user. Each cursor
+// plays its moves back through a CursorTrack rather than jumping to each one.
+
+export interface RemoteCursorOptions {
+  // Fading dots behind a moving cursor
+  trails: boolean
+  // Name tag beside each cursor
+  labels: boolean
+}
+
+export interface RemoteCursorLayer {
+  object: THREE.Group
+  show: (cursor: CursorState) => void
+  hide: (sessionId: string) => void
+  remove: (sessionId: string) => void
+  setLabel: (sessionId: string, label: string) => void
+  setOptions: (options: RemoteCursorOptions) => void
+  // Place every cursor again, e.g. after the color solid changed
+  relocate: () => void
+  // Advance glides, fades and trails for a frame at `now`. Returns how many ms until
+  // another frame is needed: 0 while anything is moving, Infinity once all is still.
+  update: (now: number) => number
+  dispose: () => void
+}
+
+const CURSOR_RADIUS = 0.025
+// Inside this the disc shows the user's color, outside it a black rim
+const CURSOR_INNER_RADIUS = 0.02
+
+// Off the surface so the disc doesn't z-fight with the face it sits on
+const SURFACE_OFFSET = 0.002
+
+// Cursors that haven't moved for a while fade away until they move again
+const IDLE_AFTER_MS = 15000
+const IDLE_FADE_MS = 2000
+
+const TRAIL_LENGTH = 15
+const TRAIL_LIFETIME_MS = 600
+const TRAIL_INTERVAL_MS = 40
+// Trail dots start at this fraction of the cursor's size and shrink as they fade
+const TRAIL_SCALE = 0.5
+
+// Beside the disc and lifted off the surface; the disc faces into the solid, so local -z points out
+const LABEL_OFFSET = new THREE.Vector3(0.03, 0.01, -0.005)
+
+const INITIAL_CAPACITY = 32
+
+const vertexShader = /* glsl */ `
+  attribute float instanceOpacity;
+  varying vec2 vOffset;
+  varying vec3 vColor;
+  varying float vOpacity;
+
+  void main() {
+    vOffset = position.xy;
+    vColor = instanceColor;
+    vOpacity = instanceOpacity;
+    gl_Position = projectionMatrix * modelViewMatrix * instanceMatrix * vec4(position, 1.0);
+  }
+`
+
+const fragmentShader = /* glsl */ `
+  uniform float innerRadius;
+  varying vec2 vOffset;
+  varying vec3 vColor;
+  varying float vOpacity;
+
+  void main() {
+    // The black rim keeps a cursor visible on faces close to its own color
+    gl_FragColor = length(vOffset) > innerRadius
+      ? vec4(0.0, 0.0, 0.0, 0.8 * vOpacity)
+      : vec4(vColor, 0.7 * vOpacity);
+
+    #include <colorspace_fragment>
+  }
+`
+
+interface TrailPoint {
+  position: THREE.Vector3
+  quaternion: THREE.Quaternion
+  time: number
+}
+
+interface RemoteCursor {
+  // Latest move as the sender reported it, so it can be placed again on a different solid
+  source: CursorState
+  track: CursorTrack
+  // Where the track has got to on the surface
+  point: CursorPoint
+  // Where the disc was last drawn, lifted off the surface and lying flat on it
+  position: THREE.Vector3
+  quaternion: THREE.Quaternion
+  // Unset until drawn, and again when the cursor reappears somewhere new
+  drawn: boolean
+  color: THREE.Color
+  visible: boolean
+  lastMoved: number
+  trail: TrailPoint[]
+  lastTrailAt: number
+  label: THREE.Sprite | null
+}
+
+function createDots(capacity: number, innerRadius: number): THREE.InstancedMesh<THREE.CircleGeometry, THREE.ShaderMaterial> {
+  const geometry = new THREE.CircleGeometry(CURSOR_RADIUS, 16)
+  geometry.setAttribute('instanceOpacity', new THREE.InstancedBufferAttribute(new Float32Array(capacity), 1).setUsage(THREE.DynamicDrawUsage))
+
+  const material = new THREE.ShaderMaterial({
+    uniforms: { innerRadius: { value: innerRadius } },
+    vertexShader,
+    fragmentShader,
+    transparent: true,
+    side: THREE.DoubleSide,
+    depthWrite: false
+  })
+
+  const dots = new THREE.InstancedMesh(geometry, material, capacity)
+  dots.instanceMatrix.setUsage(THREE.DynamicDrawUsage)
+  dots.instanceColor = new THREE.InstancedBufferAttribute(new Float32Array(capacity * 3), 3).setUsage(THREE.DynamicDrawUsage)
+  dots.count = 0
+  // Instances move every frame, so a bounding sphere would always be stale
+  dots.frustumCulled = false
+  return dots
+}
+
+function disposeDots(dots: THREE.InstancedMesh<THREE.CircleGeometry, THREE.ShaderMaterial>) {
+  dots.geometry.dispose()
+  dots.material.dispose()
+  dots.dispose()
+}
+
+export function createRemoteCursorLayer(
+  // Where on our solid a sender's point lands
+  place: (position: Vec3, normal: Vec3, rgb: RGB | undefined) => CursorPoint
+): RemoteCursorLayer {
+  const object = new THREE.Group()
+  const cursors = new Map<string, RemoteCursor>()
+  // Kept apart from the cursors because names usually arrive before anyone moves
+  const labelTexts = new Map<string, string>()
+  let options: RemoteCursorOptions = { trails: false, labels: true }
+
+  let discs = createDots(INITIAL_CAPACITY, CURSOR_INNER_RADIUS)
+  // No rim on trail dots, they're just a smear of the cursor's color
+  let trails = createDots(INITIAL_CAPACITY, CURSOR_RADIUS)
+  trails.renderOrder = -1
+  object.add(trails, discs)
+
+  // Instanced buffers are fixed size, so swap in one twice as big when a room outgrows it
+  const ensureCapacity = (dots: typeof discs, needed: number): typeof discs => {
+    const capacity = dots.instanceMatrix.count
+    if (needed <= capacity) return dots
+
+    const grown = createDots(Math.max(needed, capacity * 2), dots.material.uniforms.innerRadius.value)
+    grown.renderOrder = dots.renderOrder
+    object.remove(dots)
+    disposeDots(dots)
+    object.add(grown)
+    return grown
+  }
+
+  const placeSource = ({ position, normal, rgb }: CursorState): CursorPoint => place(position, normal, rgb)
+
+  const removeLabel = (cursor: RemoteCursor) => {
+    if (!cursor.label) return
+    object.remove(cursor.label)
+    disposeLabelSprite(cursor.label)
+    cursor.label = null
+  }
+
+  const applyLabel = (sessionId: string, cursor: RemoteCursor) => {
+    removeLabel(cursor)
+    const text = labelTexts.get(sessionId)
+    if (!options.labels || !text) return
+    cursor.label = createLabelSprite(text)
+    cursor.label.visible = false // update() places it
+    object.add(cursor.label)
+  }
+
+  const show = (source: CursorState) => {
+    const now = performance.now()
+    let cursor = cursors.get(source.sessionId)
+    if (!cursor) {
+      cursor = {
+        source,
+        track: createCursorTrack(),
+        point: { position: new THREE.Vector3(), normal: new THREE.Vector3() },
+        position: new THREE.Vector3(),
+        quaternion: new THREE.Quaternion(),
+        drawn: false,
+        color: new THREE.Color(),
+        visible: false,
+        lastMoved: now,
+        trail: [],
+        lastTrailAt: 0,
+        label: null
+      }
+      cursors.set(source.sessionId, cursor)
+      applyLabel(source.sessionId, cursor)
+    }
+
+    // Coming back after leaving starts where it reappears, not gliding over from where it left
+    if (!cursor.visible) {
+      cursor.track.reset()
+      cursor.drawn = false
+    }
+
+    const { seq, sentAt } = source
+    const timing = seq !== undefined && sentAt !== undefined ? { seq, sentAt } : undefined
+    if (!cursor.track.push(placeSource(source), timing, now)) return
+
+    cursor.source = source
+    cursor.color.setStyle(source.color)
+    cursor.visible = true
+    cursor.lastMoved = now
+  }
+
+  const hide = (sessionId: string) => {
+    const cursor = cursors.get(sessionId)
+    if (cursor) cursor.visible = false
+  }
+
+  const remove = (sessionId: string) => {
+    labelTexts.delete(sessionId)
+    const cursor = cursors.get(sessionId)
+    if (!cursor) return
+    removeLabel(cursor)
+    cursors.delete(sessionId)
+  }
+
+  const setLabel = (sessionId: string, label: string) => {
+    if (labelTexts.get(sessionId) === label) return
+    labelTexts.set(sessionId, label)
+    const cursor = cursors.get(sessionId)
+    if (cursor) applyLabel(sessionId, cursor)
+  }
+
+  const setOptions = (next: RemoteCursorOptions) => {
+    const labelsChanged = next.labels !== options.labels
+    options = next
+    cursors.forEach((cursor, sessionId) => {
+      if (!options.trails) cursor.trail = []
+      if (labelsChanged) applyLabel(sessionId, cursor)
+    })
+  }
+
+  const relocate = () => {
+    const now = performance.now()
+    cursors.forEach(cursor => {
+      // Buffered moves and trails ran across the old solid
+      cursor.trail = []
+      cursor.drawn = false
+      cursor.track.reset()
+      cursor.track.push(placeSource(cursor.source), undefined, now)
+    })
+  }
+
+  const orient = new THREE.Object3D()
+  const lookAt = new THREE.Vector3()
+  const matrix = new THREE.Matrix4()
+  const scale = new THREE.Vector3()
+
+  // Follow the track, leaving trail dots behind
+  const advance = (cursor: RemoteCursor, now: number) => {
+    if (!cursor.visible || !cursor.track.sample(now, cursor.point)) return
+
+    const { position, normal } = cursor.point
+    orient.position.copy(position).addScaledVector(normal, SURFACE_OFFSET)
+    // Lie flat on the surface
+    orient.lookAt(lookAt.copy(orient.position).sub(normal))
+
+    if (options.trails && cursor.drawn && now - cursor.lastTrailAt >= TRAIL_INTERVAL_MS &&
+        !orient.position.equals(cursor.position)) {
+      cursor.trail.push({ position: cursor.position.clone(), quaternion: cursor.quaternion.clone(), time: now })
+      if (cursor.trail.length > TRAIL_LENGTH) cursor.trail.shift()
+      cursor.lastTrailAt = now
+    }
+
+    cursor.position.copy(orient.position)
+    cursor.quaternion.copy(orient.quaternion)
+    cursor.drawn = true
+  }
+
+  const update = (now: number): number => {
+    discs = ensureCapacity(discs, cursors.size)
+    const discOpacity = discs.geometry.getAttribute('instanceOpacity') as THREE.InstancedBufferAttribute
+
+    let wait = Infinity
+    let discCount = 0
+    let trailCount = 0
+    cursors.forEach(cursor => {
+      advance(cursor, now)
+      if (cursor.visible && cursor.track.isMoving(now)) wait = 0
+      while (cursor.trail.length > 0 && now - cursor.trail[0].time > TRAIL_LIFETIME_MS) cursor.trail.shift()
+      if (cursor.trail.length > 0) wait = 0
+      trailCount += cursor.trail.length
+
+      const idle = now - cursor.lastMoved - IDLE_AFTER_MS
+      const opacity = cursor.visible && cursor.drawn ? THREE.MathUtils.clamp(1 - idle / IDLE_FADE_MS, 0, 1) : 0
+      // Wake up again when an idle cursor starts to fade
+      if (opacity > 0) wait = Math.min(wait, idle < 0 ? -idle : 0)
+      if (cursor.label) {
+        cursor.label.visible = opacity > 0
+        cursor.label.material.opacity = opacity
+        cursor.label.position.copy(LABEL_OFFSET).applyQuaternion(cursor.quaternion).add(cursor.position)
+      }
+      if (opacity === 0) return
+
+      discs.setMatrixAt(discCount, matrix.compose(cursor.position, cursor.quaternion, scale.setScalar(1)))
+      discs.setColorAt(discCount, cursor.color)
+      discOpacity.setX(discCount, opacity)
+      discCount++
+    })
+
+    discs.count = discCount
+    discs.instanceMatrix.needsUpdate = true
+    discs.instanceColor!.needsUpdate = true
+    discOpacity.needsUpdate = true
+
+    trails = ensureCapacity(trails, trailCount)
+    const trailOpacity = trails.geometry.getAttribute('instanceOpacity') as THREE.InstancedBufferAttribute
+
+    let index = 0
+    cursors.forEach(cursor => {
+      for (const point of cursor.trail) {
+        const life = 1 - (now - point.time) / TRAIL_LIFETIME_MS
+        trails.setMatrixAt(index, matrix.compose(point.position, point.quaternion, scale.setScalar(TRAIL_SCALE * life)))
+        trails.setColorAt(index, cursor.color)
+        trailOpacity.setX(index, life)
+        index++
+      }
+    })
+
+    trails.count = index
+    trails.instanceMatrix.needsUpdate = true
+    trails.instanceColor!.needsUpdate = true
+    trailOpacity.needsUpdate = true
+
+    return wait
+  }
+
+  const dispose = () => {
+    cursors.forEach(removeLabel)
+    cursors.clear()
+    labelTexts.clear()
+    disposeDots(discs)
+    disposeDots(trails)
+  }
+
+  return { object, show, hide, remove, setLabel, setOptions, relocate, update, dispose }
+}
@@ -0,0 +1,107 @@
+import * as THREE from 'three'
+import { describe, expect, it } from 'vitest'
+import type { SliceState } from '../shared/protocol'
+import { getColorSpace, type ColorSpaceId } from './colorSpaces'
+import { createSliceCap, createSliceStencils, placeSlice } from './sliceCap'
+import { createSolidMaterial } from './solidMaterial'
+
+const SIZE = 48
+const TOLERANCE = 2
+
+// Prisms along each normal, so looking straight down it only the cap can be seen
+// inside the cross-section and nothing at all outside it
+const CASES: [ColorSpaceId, SliceState['normal']][] = [
+  ['rgb', { x: 0, y: 1, z: 0 }],
+  ['rgb', { x: 1, y: 0, z: 0 }],
+  ['hsv', { x: 0, y: 1, z: 0 }]
+]
+
+const OFFSETS = [-0.3, 0, 0.3]
+
+// Odd crossings on the way out along the normal put the point inside the solid
+function isInside(solid: THREE.Mesh, point: THREE.Vector3, normal: THREE.Vector3): boolean {
+  const raycaster = new THREE.Raycaster(point, normal.clone().negate())
+  return raycaster.intersectObject(solid).filter(hit => hit.distance > 1e-6).length % 2 === 1
+}
+
+describe('slice cap', () => {
+  const canvas = document.createElement('canvas')
+  const renderer = new THREE.WebGLRenderer({ canvas, alpha: true, stencil: true, preserveDrawingBuffer: true })
+  renderer.setPixelRatio(1)
+  renderer.setSize(SIZE, SIZE, false)
+  renderer.setClearColor(0x000000, 0)
+  renderer.localClippingEnabled = true
+
+  const cases = CASES.flatMap(([id, normal]) => OFFSETS.map(offset => [id, normal, offset] as const))
+
+  it.each(cases)('fills only the cross-section of the %s solid cut along %o at %s', (id, normal, offset) => {
+    const space = getColorSpace(id)
+    const geometry = space.createGeometry()
+    const clipPlane = new THREE.Plane()
+    const cap = createSliceCap(space)
+    cap.visible = true
+    placeSlice({ normal, offset }, clipPlane, cap)
+
+    const scene = new THREE.Scene()
+    const solid = new THREE.Mesh(geometry, createSolidMaterial(space, { side: THREE.DoubleSide, clippingPlanes: [clipPlane] }))
+    solid.add(...createSliceStencils(geometry, clipPlane))
+    scene.add(solid, cap)
+
+    const direction = new THREE.Vector3(normal.x, normal.y, normal.z)
+    const camera = new THREE.OrthographicCamera(-0.9, 0.9, 0.9, -0.9, 0.1, 10)
+    camera.up.set(direction.y, direction.z, direction.x)
+    camera.position.copy(direction).multiplyScalar(3)
+    camera.lookAt(0, 0, 0)
+    camera.updateMatrixWorld()
+
+    renderer.render(scene, camera)
+    const gl = renderer.getContext()
+    const pixels = new Uint8Array(SIZE * SIZE * 4)
+    gl.readPixels(0, 0, SIZE, SIZE, gl.RGBA, gl.UNSIGNED_BYTE, pixels)
+
+    // Where each pixel centre lands on the cut, and whether that is inside the solid
+    const picker = new THREE.Mesh(geometry, new THREE.MeshBasicMaterial({ side: THREE.DoubleSide }))
+    const raycaster = new THREE.Raycaster()
+    const points: THREE.Vector3[] = []
+    const inside: boolean[] = []
+    for (let row = 0; row < SIZE; row++) {
+      for (let column = 0; column < SIZE; column++) {
+        raycaster.setFromCamera(new THREE.Vector2((column + 0.5) / SIZE * 2 - 1, (row + 0.5) / SIZE * 2 - 1), camera)
+        const point = raycaster.ray.intersectPlane(new THREE.Plane(direction, -offset), new THREE.Vector3())!
+        points.push(point)
+        inside.push(isInside(picker, point, direction))
+      }
+    }
+
+    let filled = 0
+    const mismatches: string[] = []
+    points.forEach((point, index) => {
+      // Skip the outline, where the pixel and the ray can land either side of the edge
+      const row = Math.floor(index / SIZE)
+      const column = index % SIZE
+      if (row === 0 || column === 0 || row === SIZE - 1 || column === SIZE - 1) return
+      if (![index - 1, index + 1, index - SIZE, index + SIZE].every(neighbour => inside[neighbour] === inside[index])) return
+
+      const [r, g, b, a] = pixels.subarray(index * 4, index * 4 + 4)
+      if (!inside[index]) {
+        if (a !== 0) mismatches.push(`drew ${JSON.stringify({ r, g, b })} outside the solid at ${point.toArray()}`)
+        return
+      }
+
+      filled++
+      const expected = space.positionToColor(point)
+      if (a !== 255 || Math.max(Math.abs(r - expected.r), Math.abs(g - expected.g), Math.abs(b - expected.b)) > TOLERANCE) {
+        mismatches.push(`${JSON.stringify(expected)} drawn as ${JSON.stringify({ r, g, b, a })}`)
+      }
+    })
+
+    expect(filled).toBeGreaterThan(SIZE * SIZE / 8)
+    expect(mismatches.slice(0, 5)).toEqual([])
+
+    geometry.dispose()
+    cap.geometry.dispose()
+    solid.traverse(object => ((object as THREE.Mesh).material as THREE.Material).dispose())
+    cap.material.dispose()
+    ;(picker.material as THREE.Material).dispose()
+  })
+})
@@ -0,0 +1,64 @@
+import * as THREE from 'three'
+import type { SliceState } from '../shared/protocol'
+import type { ColorSpace } from './colorSpaces'
+import { createSolidMaterial } from './solidMaterial'
+
+// Closes the hole a slice leaves in the solid. Two invisible passes over the
+// solid count its faces into the stencil buffer, and an oversized plane at the
+// cut draws only where that count says it is inside. The renderer must be
+// created with `stencil: true`, otherwise there is no buffer to count into and
+// the cap covers the whole plane.
+
+// Back faces add one to the stencil and front faces take one away, so inside
+// the clipped solid the count is left non-zero for the slice cap to fill
+export function createSliceStencils(geometry: THREE.BufferGeometry, clipPlane: THREE.Plane): THREE.Mesh[] {
+  return ([
+    [THREE.BackSide, THREE.IncrementWrapStencilOp],
+    [THREE.FrontSide, THREE.DecrementWrapStencilOp]
+  ] as const).map(([side, operation]) => {
+    const stencil = new THREE.Mesh(geometry, new THREE.MeshBasicMaterial({
+      side,
+      clippingPlanes: [clipPlane],
+      depthWrite: false,
+      depthTest: false,
+      colorWrite: false,
+      stencilWrite: true,
+      stencilFunc: THREE.AlwaysStencilFunc,
+      stencilFail: operation,
+      stencilZFail: operation,
+      stencilZPass: operation
+    }))
+    stencil.renderOrder = 1
+    return stencil
+  })
+}
+
+// Fills the cross-section where the stencil passes left a non-zero count, and
+// resets it as it goes so the next frame starts clean
+export function createSliceCapMaterial(space: ColorSpace): THREE.ShaderMaterial {
+  return createSolidMaterial(space, {
+    side: THREE.DoubleSide,
+    stencilWrite: true,
+    stencilRef: 0,
+    stencilFunc: THREE.NotEqualStencilFunc,
+    stencilFail: THREE.ReplaceStencilOp,
+    stencilZFail: THREE.ReplaceStencilOp,
+    stencilZPass: THREE.ReplaceStencilOp
+  })
+}
+
+export function createSliceCap(space: ColorSpace): THREE.Mesh<THREE.PlaneGeometry, THREE.ShaderMaterial> {
+  const cap = new THREE.Mesh(new THREE.PlaneGeometry(2, 2), createSliceCapMaterial(space))
+  cap.renderOrder = 1.1
+  cap.onAfterRender = renderer => renderer.clearStencil()
+  cap.visible = false
+  return cap
+}
+
+// Keeps the part of the solid behind the slice normal and lays the cap over the cut
+export function placeSlice(slice: SliceState, clipPlane: THREE.Plane, cap: THREE.Object3D) {
+  const normal = new THREE.Vector3(slice.normal.x, slice.normal.y, slice.normal.z).normalize()
+  clipPlane.set(normal.clone().negate(), slice.offset)
+  cap.position.copy(normal).multiplyScalar(slice.offset)
+  cap.quaternion.setFromUnitVectors(new THREE.Vector3(0, 0, 1), normal)
+}
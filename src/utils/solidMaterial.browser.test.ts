@@ -0,0 +1,70 @@
+import * as THREE from 'three'
+import { describe, expect, it } from 'vitest'
+import { COLOR_SPACES } from './colorSpaces'
+import { createSolidMaterial } from './solidMaterial'
+
+const SIZE = 48
+
+// Color channels may be a step or two off: the readout rounds, and the GPU interpolates
+// world positions in floats across each triangle
+const TOLERANCE = 2
+
+function renderSolid(renderer: THREE.WebGLRenderer, mesh: THREE.Mesh, camera: THREE.Camera): Uint8Array {
+  const scene = new THREE.Scene()
+  scene.add(mesh)
+  renderer.render(scene, camera)
+
+  const gl = renderer.getContext()
+  const pixels = new Uint8Array(SIZE * SIZE * 4)
+  gl.readPixels(0, 0, SIZE, SIZE, gl.RGBA, gl.UNSIGNED_BYTE, pixels)
+  return pixels
+}
+
+describe('solid material', () => {
+  const canvas = document.createElement('canvas')
+  const renderer = new THREE.WebGLRenderer({ canvas, preserveDrawingBuffer: true })
+  renderer.setPixelRatio(1)
+  renderer.setSize(SIZE, SIZE, false)
+
+  const camera = new THREE.OrthographicCamera(-0.9, 0.9, 0.9, -0.9, 0.1, 10)
+  camera.position.set(1.2, 1.4, 2)
+  camera.lookAt(0, 0, 0)
+  camera.updateMatrixWorld()
+
+  it.each(COLOR_SPACES.map(space => [space.label, space] as const))('draws the picked color under every pixel of the %s', (_, space) => {
+    const mesh = new THREE.Mesh(space.createGeometry(), createSolidMaterial(space))
+    const pixels = renderSolid(renderer, mesh, camera)
+
+    // Cast through each pixel centre, as picking does, and compare with what was drawn
+    const raycaster = new THREE.Raycaster()
+    const hits = new Map<number, THREE.Vector3>()
+    for (let row = 0; row < SIZE; row++) {
+      for (let column = 0; column < SIZE; column++) {
+        const ndc = new THREE.Vector2((column + 0.5) / SIZE * 2 - 1, (row + 0.5) / SIZE * 2 - 1)
+        raycaster.setFromCamera(ndc, camera)
+        const [hit] = raycaster.intersectObject(mesh)
+        if (hit) hits.set(row * SIZE + column, hit.point)
+      }
+    }
+
+    let compared = 0
+    const mismatches: string[] = []
+    hits.forEach((point, index) => {
+      // Skip the silhouette, where the pixel and the ray can land either side of the edge
+      if (![index - 1, index + 1, index - SIZE, index + SIZE].every(neighbour => hits.has(neighbour))) return
+
+      const expected = space.positionToColor(point)
+      const actual = { r: pixels[index * 4], g: pixels[index * 4 + 1], b: pixels[index * 4 + 2] }
+      compared++
+      if (Math.max(Math.abs(actual.r - expected.r), Math.abs(actual.g - expected.g), Math.abs(actual.b - expected.b)) > TOLERANCE) {
+        mismatches.push(`${JSON.stringify(expected)} drawn as ${JSON.stringify(actual)}`)
+      }
+    })
+
+    expect(compared).toBeGreaterThan(SIZE * SIZE / 4)
+    expect(mismatches.slice(0, 5)).toEqual([])
+
+    mesh.geometry.dispose()
+    ;(mesh.material as THREE.Material).dispose()
+  })
+})
@@ -0,0 +1,50 @@
+import * as THREE from 'three'
+import type { ColorSpace } from './colorSpaces'
+
+// Colors the solid, and the cap over a slice through it, per fragment from where
+// each pixel sits in the color space. Interpolated vertex colors only approximate
+// the mapping between vertices, so the pixels under the cursor could disagree
+// with the hex value the readout computes for the same point.
+
+const vertexShader = /* glsl */ `
+  #include <clipping_planes_pars_vertex>
+  varying vec3 vWorldPosition;
+
+  void main() {
+    vWorldPosition = (modelMatrix * vec4(position, 1.0)).xyz;
+    vec4 mvPosition = modelViewMatrix * vec4(position, 1.0);
+    gl_Position = projectionMatrix * mvPosition;
+    #include <clipping_planes_vertex>
+  }
+`
+
+function createFragmentShader(space: ColorSpace): string {
+  return /* glsl */ `
+    #include <clipping_planes_pars_fragment>
+    uniform float opacity;
+    varying vec3 vWorldPosition;
+
+    ${space.shader}
+
+    void main() {
+      #include <clipping_planes_fragment>
+
+      // positionToColor gives sRGB values. Decode them so the output conversion
+      // writes those same values back for an sRGB canvas, and the right ones for
+      // any other output color space.
+      gl_FragColor = vec4(sRGBTransferEOTF(vec4(positionToColor(vWorldPosition), 1.0)).rgb, opacity);
+
+      #include <colorspace_fragment>
+    }
+  `
+}
+
+export function createSolidMaterial(space: ColorSpace, parameters: THREE.ShaderMaterialParameters = {}): THREE.ShaderMaterial {
+  return new THREE.ShaderMaterial({
+    ...parameters,
+    uniforms: { opacity: { value: 1 } },
+    vertexShader,
+    fragmentShader: createFragmentShader(space),
+    clipping: true
+  })
+}
@@ -0,0 +1,7 @@
+import type { UserProfile } from '../shared/protocol'
+
+// What a session is called in the roster, presenter controls and next to its cursor
+export function getUserLabel(sessionId: string, profile?: UserProfile): string {
+  const name = profile?.displayName || `User ${sessionId.slice(-4)}`
+  return profile?.avatar ? `${profile.avatar} ${name}` : name
+}
@@ -0,0 +1,45 @@
+import { computeGamutHull, findDominantColors, samplePixels, type ImageAnalysis } from '../utils/imageColors'
+
+// Decoded images arrive as ImageBitmaps; everything from reading pixels to the
+// hull happens here so a large photo never stalls the render loop.
+
+export interface ImageAnalysisRequest {
+  bitmap: ImageBitmap
+}
+
+export type ImageAnalysisResponse =
+  | { type: 'result'; analysis: ImageAnalysis }
+  | { type: 'error'; message: string }
+
+// Downscale before reading pixels; sampling throws most of them away anyway
+const MAX_DIMENSION = 512
+
+self.addEventListener('message', (event: MessageEvent<ImageAnalysisRequest>) => {
+  const { bitmap } = event.data
+  try {
+    const scale = Math.min(1, MAX_DIMENSION / Math.max(bitmap.width, bitmap.height))
+    const width = Math.max(1, Math.round(bitmap.width * scale))
+    const height = Math.max(1, Math.round(bitmap.height * scale))
+
+    const canvas = new OffscreenCanvas(width, height)
+    const context = canvas.getContext('2d')
+    if (!context) throw new Error('2D canvas unavailable in worker')
+    context.drawImage(bitmap, 0, 0, width, height)
+
+    const samples = samplePixels(context.getImageData(0, 0, width, height).data)
+    const analysis: ImageAnalysis = {
+      width: bitmap.width,
+      height: bitmap.height,
+      samples,
+      hull: computeGamutHull(samples),
+      dominant: findDominantColors(samples)
+    }
+    const response: ImageAnalysisResponse = { type: 'result', analysis }
+    self.postMessage(response, { transfer: [samples.buffer, analysis.hull.buffer] })
+  } catch (error) {
+    const response: ImageAnalysisResponse = { type: 'error', message: error instanceof Error ? error.message : String(error) }
+    self.postMessage(response)
+  } finally {
+    bitmap.close()
+  }
+})
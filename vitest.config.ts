@@ -0,0 +1,37 @@
+/// <reference types="@vitest/browser/providers/playwright" />
+import { defineConfig } from 'vitest/config'
+
+// Kept apart from vite.config.ts, whose Cloudflare plugin only makes sense for the app.
+// Rendering tests (`pnpm test:browser`) run in headless Chromium, drawing WebGL with
+// SwiftShader; fetch it once with `pnpm exec playwright install --with-deps chromium`.
+export default defineConfig({
+  test: {
+    projects: [
+      {
+        test: {
+          name: 'unit',
+          include: ['src/**/*.test.ts', 'party/**/*.test.ts'],
+          exclude: ['src/**/*.browser.test.ts']
+        }
+      },
+      {
+        test: {
+          name: 'browser',
+          include: ['src/**/*.browser.test.ts'],
+          browser: {
+            enabled: true,
+            provider: 'playwright',
+            headless: true,
+            screenshotFailures: false,
+            instances: [{
+              browser: 'chromium',
+              launch: {
+                args: ['--use-angle=swiftshader', '--enable-unsafe-swiftshader']
+              }
+            }]
+          }
+        }
+      }
+    ]
+  }
+})